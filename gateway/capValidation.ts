@@ -0,0 +1,214 @@
+// Checks documents posted to the CAP feed against CAP 1.2 before the gateway serves them to partner systems.
+// The parser accepts only the plain XML that CAP needs: elements, text and the five predefined entities. Comments,
+// DOCTYPEs, CDATA, processing instructions, prefixed names and attributes other than the CAP namespace on <alert>
+// are all refused, so nothing but CAP elements can ride along in a published document.
+
+const CAP_NAMESPACE = "urn:oasis:names:tc:emergency:cap:1.2";
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export interface ValidCapDocument {
+  identifier: string;
+  sent: string;
+  status: string;
+  headline: string;
+}
+
+// "1" exactly once, "?" at most once, "*" any number, "+" at least once; children must appear in this order
+type Occurs = "1" | "?" | "*" | "+";
+type ChildSpec = [name: string, occurs: Occurs];
+
+const VALUE_PAIR: ChildSpec[] = [["valueName", "1"], ["value", "1"]];
+
+const STRUCTURE: Record<string, ChildSpec[]> = {
+  alert: [
+    ["identifier", "1"], ["sender", "1"], ["sent", "1"], ["status", "1"], ["msgType", "1"], ["source", "?"], ["scope", "1"],
+    ["restriction", "?"], ["addresses", "?"], ["code", "*"], ["note", "?"], ["references", "?"], ["incidents", "?"], ["info", "*"]
+  ],
+  info: [
+    ["language", "?"], ["category", "+"], ["event", "1"], ["responseType", "*"], ["urgency", "1"], ["severity", "1"],
+    ["certainty", "1"], ["audience", "?"], ["eventCode", "*"], ["effective", "?"], ["onset", "?"], ["expires", "?"],
+    ["senderName", "?"], ["headline", "?"], ["description", "?"], ["instruction", "?"], ["web", "?"], ["contact", "?"],
+    ["parameter", "*"], ["resource", "*"], ["area", "*"]
+  ],
+  area: [["areaDesc", "1"], ["polygon", "*"], ["circle", "*"], ["geocode", "*"], ["altitude", "?"], ["ceiling", "?"]],
+  resource: [["resourceDesc", "1"], ["mimeType", "1"], ["size", "?"], ["uri", "?"], ["derefUri", "?"], ["digest", "?"]],
+  eventCode: VALUE_PAIR,
+  parameter: VALUE_PAIR,
+  geocode: VALUE_PAIR
+};
+
+const ENUMERATIONS: Record<string, string[]> = {
+  status: ["Actual", "Exercise", "System", "Test", "Draft"],
+  msgType: ["Alert", "Update", "Cancel", "Ack", "Error"],
+  scope: ["Public", "Restricted", "Private"],
+  category: ["Geo", "Met", "Safety", "Security", "Rescue", "Fire", "Health", "Env", "Transport", "Infra", "CBRNE", "Other"],
+  responseType: ["Shelter", "Evacuate", "Prepare", "Execute", "Avoid", "Monitor", "Assess", "AllClear", "None"],
+  urgency: ["Immediate", "Expected", "Future", "Past", "Unknown"],
+  severity: ["Extreme", "Severe", "Moderate", "Minor", "Unknown"],
+  certainty: ["Observed", "Likely", "Possible", "Unlikely", "Unknown"]
+};
+
+const CAP_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[+-]\d{2}:\d{2}$/;
+const CAP_DATE_ELEMENTS = ["sent", "effective", "onset", "expires"];
+const CAP_TOKEN = /^[^\s,<&]+$/; // identifier and sender
+const XML_DECLARATION = /^<\?xml\s+version="1\.0"(\s+encoding="UTF-8")?\s*\?>/i;
+const NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+class CapValidationError extends Error {}
+
+const decodeText = (raw: string): string =>
+  raw.replace(/&([^;]*);?/g, (reference, name: string) => {
+    if (!reference.endsWith(";")) throw new CapValidationError("Unterminated entity reference");
+    if (name in ENTITIES) return ENTITIES[name];
+    const code = name.match(/^#(\d+)$/)?.[1] ?? name.match(/^#x([0-9a-f]+)$/i)?.[1];
+    if (code === undefined) throw new CapValidationError(`Unknown entity &${name};`);
+    return String.fromCodePoint(parseInt(code, name.startsWith("#x") ? 16 : 10));
+  });
+
+const parseAttributes = (raw: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const rest = raw.replace(/\s+([A-Za-z_][\w.:-]*)\s*=\s*"([^"<]*)"/g, (_, name: string, value: string) => {
+    attributes[name] = decodeText(value);
+    return "";
+  });
+  if (rest.trim()) throw new CapValidationError("Malformed attributes");
+  return attributes;
+};
+
+const parseXml = (xml: string): XmlElement => {
+  let rest = xml.replace(/^\uFEFF/, "").replace(XML_DECLARATION, "");
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  while (rest.length > 0) {
+    const next = rest.indexOf("<");
+    const text = next === -1 ? rest : rest.slice(0, next);
+    if (text) {
+      const current = stack[stack.length - 1];
+      if (!current) {
+        if (text.trim()) throw new CapValidationError("Text outside the root element");
+      } else {
+        current.text += decodeText(text);
+      }
+    }
+    if (next === -1) break;
+    rest = rest.slice(next);
+
+    if (rest.startsWith("<!") || rest.startsWith("<?")) throw new CapValidationError("Comments, DOCTYPEs, CDATA and processing instructions are not allowed");
+
+    const closing = rest.match(/^<\/([^\s>]+)\s*>/);
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== closing[1]) throw new CapValidationError(`Unexpected </${closing[1]}>`);
+      rest = rest.slice(closing[0].length);
+      continue;
+    }
+
+    const opening = rest.match(/^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*"[^"]*")*)\s*(\/?)>/);
+    if (!opening) throw new CapValidationError("Malformed tag");
+    const [tag, name, rawAttributes, selfClosing] = opening;
+    if (!NAME.test(name)) throw new CapValidationError(`Element names can't have a prefix: <${name}>`);
+
+    const element: XmlElement = { name, attributes: parseAttributes(rawAttributes), children: [], text: "" };
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(element);
+    else if (root) throw new CapValidationError("More than one root element");
+    else root = element;
+    if (!selfClosing) stack.push(element);
+    rest = rest.slice(tag.length);
+  }
+
+  if (stack.length > 0) throw new CapValidationError(`<${stack[stack.length - 1].name}> is not closed`);
+  if (!root) throw new CapValidationError("The document is empty");
+  return root;
+};
+
+const checkChildren = (element: XmlElement, path: string) => {
+  const spec = STRUCTURE[element.name];
+  if (!spec) {
+    if (element.children.length > 0) throw new CapValidationError(`${path} can't contain elements`);
+    return;
+  }
+  if (element.text.trim()) throw new CapValidationError(`${path} can't contain text`);
+
+  let position = 0;
+  const counts = new Map<string, number>();
+  for (const child of element.children) {
+    while (position < spec.length && spec[position][0] !== child.name) position++;
+    if (position === spec.length) throw new CapValidationError(`<${child.name}> is not allowed in ${path}, or is out of order`);
+
+    const [name, occurs] = spec[position];
+    const count = (counts.get(name) ?? 0) + 1;
+    if (count > 1 && (occurs === "1" || occurs === "?")) throw new CapValidationError(`${path} can have only one <${name}>`);
+    counts.set(name, count);
+    if (Object.keys(child.attributes).length > 0) throw new CapValidationError(`<${child.name}> can't have attributes`);
+    checkChildren(child, `${path}/${child.name}`);
+  }
+
+  const missing = spec.find(([name, occurs]) => (occurs === "1" || occurs === "+") && !counts.has(name));
+  if (missing) throw new CapValidationError(`${path} is missing <${missing[0]}>`);
+};
+
+const checkPolygon = (text: string) => {
+  const points = text.trim().split(/\s+/).map(pair => pair.split(",").map(Number));
+  const valid = points.length >= 4 && points.every(point => point.length === 2 && Math.abs(point[0]) <= 90 && Math.abs(point[1]) <= 180);
+  if (!valid) throw new CapValidationError("A <polygon> needs at least four \"lat,lon\" points");
+  const [first, last] = [points[0], points[points.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) throw new CapValidationError("A <polygon> must end at its first point");
+};
+
+const checkValues = (element: XmlElement, path: string) => {
+  const value = element.text.trim();
+  const allowed = ENUMERATIONS[element.name];
+  if (allowed && !allowed.includes(value)) throw new CapValidationError(`${path} must be one of ${allowed.join(", ")}`);
+  if (CAP_DATE_ELEMENTS.includes(element.name) && !(CAP_DATE.test(value) && !Number.isNaN(Date.parse(value)))) {
+    throw new CapValidationError(`${path} must be a CAP date-time such as 2024-05-01T14:20:00+00:00`);
+  }
+  if ((element.name === "identifier" || element.name === "sender") && !CAP_TOKEN.test(value)) {
+    throw new CapValidationError(`${path} can't contain spaces, commas, < or &`);
+  }
+  if (element.name === "polygon") checkPolygon(value);
+  if (element.name === "circle" && !/^-?\d+(\.\d+)?,-?\d+(\.\d+)? \d+(\.\d+)?$/.test(value)) {
+    throw new CapValidationError(`${path} must be "lat,lon radius"`);
+  }
+  element.children.forEach(child => checkValues(child, `${path}/${child.name}`));
+};
+
+const childText = (element: XmlElement, name: string): string | undefined =>
+  element.children.find(child => child.name === name)?.text.trim();
+
+// Returns the document's identifier, sent time, status and headline, or throws with the first problem found
+export const validateCapDocument = (xml: string): ValidCapDocument => {
+  try {
+    const root = parseXml(xml);
+    if (root.name !== "alert") throw new CapValidationError("The root element must be <alert>");
+    const { xmlns, ...otherAttributes } = root.attributes;
+    if (xmlns !== CAP_NAMESPACE) throw new CapValidationError(`<alert> must be in the ${CAP_NAMESPACE} namespace`);
+    if (Object.keys(otherAttributes).length > 0) throw new CapValidationError("<alert> can't have other attributes");
+
+    checkChildren({ ...root, attributes: {} }, "alert");
+    checkValues(root, "alert");
+
+    const scope = childText(root, "scope");
+    if (scope === "Restricted" && !childText(root, "restriction")) throw new CapValidationError("Restricted alerts need a <restriction>");
+    if (scope === "Private" && !childText(root, "addresses")) throw new CapValidationError("Private alerts need <addresses>");
+
+    const info = root.children.find(child => child.name === "info");
+    return {
+      identifier: childText(root, "identifier")!,
+      sent: childText(root, "sent")!,
+      status: childText(root, "status")!,
+      headline: (info && (childText(info, "headline") ?? childText(info, "event"))) ?? childText(root, "identifier")!
+    };
+  } catch (error) {
+    if (error instanceof CapValidationError) throw new Error(`Not a valid CAP 1.2 document: ${error.message}`);
+    throw error;
+  }
+};
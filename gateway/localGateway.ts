@@ -0,0 +1,443 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Connect, Plugin } from "vite";
+import { randomInt, randomUUID, timingSafeEqual } from "crypto";
+import { validateCapDocument } from "./capValidation";
+import { E164_PATTERN } from "../src/services/phoneNumbers";
+
+// Local stand-in for the SMS, email and push providers. It is mounted on the
+// dev and preview servers so staging builds can send real HTTP requests
+// without contacting any external service.
+
+interface GatewayMessage {
+  id: number;
+  channel: string;
+  to: string;
+  subject?: string;
+  body: string;
+  receivedAt: string;
+}
+
+// A CAP 1.2 document published by the app, served on the Atom feed
+interface GatewayCapAlert {
+  identifier: string;
+  sent: string;
+  headline: string;
+  xml: string;
+}
+
+interface GatewayAcknowledgement {
+  id: number;
+  token: string;
+  method: "reply" | "endpoint";
+  from?: string;
+  receivedAt: string;
+}
+
+// A resident who proved they hold the number by entering the code texted to it
+interface GatewaySubscriber {
+  id: number;
+  phoneNumber: string;
+  name: string;
+  regions: string[];
+  location?: { latitude: number; longitude: number };
+  locale: string;
+  verifiedAt: string;
+}
+
+interface PendingVerification {
+  subscriber: Omit<GatewaySubscriber, "id" | "verifiedAt">;
+  code: string;
+  sentAt: number;
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+export interface LocalGatewayOptions {
+  operatorToken?: string; // Bearer token the dashboard sends to publish CAP alerts and read the outbox and subscribers
+}
+
+const CHANNELS = ["sms", "email", "push"];
+const OUTBOX_LIMIT = 500;
+const ACK_REPLY_PATTERN = /^ACK\s+([A-Z0-9]+)/i;
+const CAP_FEED_LIMIT = 100;
+const CODE_LENGTH = 6;
+const CODE_TTL_MS = 10 * 60_000;
+const RESEND_COOLDOWN_MS = 30_000;
+const MAX_ATTEMPTS = 5;
+// Code requests allowed per client address, and from everyone together, within the window
+const CODE_REQUEST_WINDOW_MS = 15 * 60_000;
+const CODE_REQUESTS_PER_CLIENT = 5;
+const CODE_REQUESTS_TOTAL = 100;
+const REDACTED_CODE = "•".repeat(CODE_LENGTH);
+// Changes on every start, so the dashboard can tell that subscriber ids have started again from 1
+const GATEWAY_INSTANCE = randomUUID();
+
+const VERIFICATION_MESSAGES: Record<string, (code: string, minutes: number) => string> = {
+  en: (code, minutes) => `Your emergency alert sign-up code is ${code}. It expires in ${minutes} minutes. If you didn't ask for it, ignore this message.`,
+  es: (code, minutes) => `Su código de registro para alertas de emergencia es ${code}. Vence en ${minutes} minutos. Si no lo solicitó, ignore este mensaje.`,
+  vi: (code, minutes) => `Mã đăng ký nhận cảnh báo khẩn cấp của bạn là ${code}. Mã hết hạn sau ${minutes} phút. Nếu bạn không yêu cầu, hãy bỏ qua tin nhắn này.`,
+  zh: (code, minutes) => `您的紧急警报注册验证码是 ${code}，${minutes} 分钟内有效。如非本人操作，请忽略此短信。`
+};
+
+const outbox: GatewayMessage[] = [];
+let nextMessageId = 1;
+const acknowledgements: GatewayAcknowledgement[] = [];
+let nextAckId = 1;
+const capAlerts: GatewayCapAlert[] = [];
+let operatorToken: string | undefined;
+// Sign-up codes are made, texted and checked here, never in the browser, keyed by E.164 number
+const pendingVerifications = new Map<string, PendingVerification>();
+const subscribers: GatewaySubscriber[] = [];
+let nextSubscriberId = 1;
+const codeRequests: { client: string; at: number }[] = [];
+
+// Logs the message as sent. A secret in the body, such as a sign-up code, reaches the terminal (the stand-in's
+// phone) but is masked in the outbox.
+const deliver = (channel: string, to: string, body: string, subject?: string, secret?: string): GatewayMessage => {
+  const stored = secret ? body.split(secret).join(REDACTED_CODE) : body;
+  const message: GatewayMessage = { id: nextMessageId++, channel, to, subject, body: stored, receivedAt: new Date().toISOString() };
+  outbox.unshift(message);
+  outbox.splice(OUTBOX_LIMIT);
+  console.log(`[gateway] ${message.channel.toUpperCase()} to ${message.to}: ${body}`);
+  return message;
+};
+
+// Records the request unless the client, or everyone together, has asked for too many codes lately
+const allowCodeRequest = (client: string, now: number): boolean => {
+  while (codeRequests.length > 0 && now - codeRequests[0].at > CODE_REQUEST_WINDOW_MS) codeRequests.shift();
+  if (codeRequests.length >= CODE_REQUESTS_TOTAL) return false;
+  if (codeRequests.filter(request => request.client === client).length >= CODE_REQUESTS_PER_CLIENT) return false;
+  codeRequests.push({ client, at: now });
+  return true;
+};
+
+interface VerificationResult {
+  status: number;
+  error?: string;
+  subscriber?: GatewaySubscriber;
+}
+
+const isLocation = (value: unknown): value is NonNullable<GatewaySubscriber["location"]> => {
+  const { latitude, longitude } = (value ?? {}) as Record<string, unknown>;
+  return typeof latitude === "number" && typeof longitude === "number" && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+};
+
+// Texts a fresh code, replacing any earlier one
+const requestVerificationCode = (payload: Record<string, unknown>, client: string, now = Date.now()): VerificationResult => {
+  const { phoneNumber, name, regions, location, locale } = payload;
+  if (typeof phoneNumber !== "string" || !E164_PATTERN.test(phoneNumber)) return { status: 400, error: "'phoneNumber' must be in E.164 form, e.g. +15551234567" };
+  if (!Array.isArray(regions) || regions.length === 0 || !regions.every(region => typeof region === "string" && region.trim())) {
+    return { status: 400, error: "'regions' must list at least one region" };
+  }
+  if (name !== undefined && (typeof name !== "string" || name.length > 80)) return { status: 400, error: "'name' must be under 80 characters" };
+  if (location !== undefined && !isLocation(location)) return { status: 400, error: "'location' must have a 'latitude' and 'longitude' in degrees" };
+
+  const previous = pendingVerifications.get(phoneNumber);
+  if (previous && now - previous.sentAt < RESEND_COOLDOWN_MS) {
+    const seconds = Math.ceil((previous.sentAt + RESEND_COOLDOWN_MS - now) / 1000);
+    return { status: 429, error: `A code was just sent to ${phoneNumber}. You can ask for a new one in ${seconds} seconds.` };
+  }
+  if (!allowCodeRequest(client, now)) return { status: 429, error: "Too many codes have been requested. Try again in a few minutes." };
+
+  const resolvedLocale = typeof locale === "string" && locale in VERIFICATION_MESSAGES ? locale : "en";
+  const code = String(randomInt(10 ** CODE_LENGTH)).padStart(CODE_LENGTH, "0");
+  pendingVerifications.set(phoneNumber, {
+    subscriber: {
+      phoneNumber,
+      name: (name as string | undefined)?.trim() ?? "",
+      regions: regions.map(region => region.trim()),
+      ...(isLocation(location) ? { location: { latitude: location.latitude, longitude: location.longitude } } : {}),
+      locale: resolvedLocale
+    },
+    code,
+    sentAt: now,
+    expiresAt: now + CODE_TTL_MS,
+    attemptsLeft: MAX_ATTEMPTS
+  });
+  deliver("sms", phoneNumber, VERIFICATION_MESSAGES[resolvedLocale](code, CODE_TTL_MS / 60_000), undefined, code);
+  return { status: 202 };
+};
+
+// Too many wrong codes, or an expired one, discard the request and the resident has to ask for a new code
+const verifySubscriber = (phoneNumber: string, code: string, now = Date.now()): VerificationResult => {
+  const verification = pendingVerifications.get(phoneNumber);
+  if (!verification) return { status: 404, error: "No code is waiting for this number. Ask for a new one." };
+
+  if (now > verification.expiresAt) {
+    pendingVerifications.delete(phoneNumber);
+    return { status: 410, error: "This code has expired. Ask for a new one." };
+  }
+
+  if (code.trim() !== verification.code) {
+    verification.attemptsLeft -= 1;
+    if (verification.attemptsLeft <= 0) {
+      pendingVerifications.delete(phoneNumber);
+      return { status: 429, error: "Too many incorrect codes. Ask for a new one." };
+    }
+    return { status: 422, error: `That code is incorrect. ${verification.attemptsLeft} ${verification.attemptsLeft === 1 ? "attempt" : "attempts"} left.` };
+  }
+
+  pendingVerifications.delete(phoneNumber);
+  const subscriber: GatewaySubscriber = { id: nextSubscriberId++, ...verification.subscriber, verifiedAt: new Date(now).toISOString() };
+  subscribers.push(subscriber);
+  console.log(`[gateway] Subscriber ${phoneNumber} verified for ${subscriber.regions.join(", ")}`);
+  return { status: 200, subscriber };
+};
+
+const recordAcknowledgement = (token: string, method: GatewayAcknowledgement["method"], from?: string): GatewayAcknowledgement => {
+  const ack: GatewayAcknowledgement = { id: nextAckId++, token: token.toUpperCase(), method, from, receivedAt: new Date().toISOString() };
+  acknowledgements.push(ack);
+  console.log(`[gateway] ACK ${ack.token} via ${method}${from ? ` from ${from}` : ""}`);
+  return ack;
+};
+
+const readJson = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", chunk => {
+      data += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+// Answers the request with 401 or 503 and returns false unless it carries the operator token
+const isOperator = (req: IncomingMessage, res: ServerResponse): boolean => {
+  if (!operatorToken) {
+    sendJson(res, 503, { error: "No operator token is configured; set VITE_GATEWAY_OPERATOR_TOKEN" });
+    return false;
+  }
+  const presented = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(operatorToken);
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    res.setHeader("WWW-Authenticate", "Bearer");
+    sendJson(res, 401, { error: "Operator token required" });
+    return false;
+  }
+  return true;
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const sendHtml = (res: ServerResponse, status: number, title: string, body: string) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  res.end(`<!DOCTYPE html>\n<html lang="en">\n<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeXml(title)}</title></head>\n<body>\n${body}\n</body>\n</html>\n`);
+};
+
+// Atom feed of published CAP alerts, newest first, each linking to its CAP document
+const renderCapFeed = (baseUrl: string): string => {
+  const entries = capAlerts.map(alert => [
+    "  <entry>",
+    `    <id>urn:cap:${escapeXml(alert.identifier)}</id>`,
+    `    <title>${escapeXml(alert.headline)}</title>`,
+    `    <updated>${escapeXml(alert.sent)}</updated>`,
+    `    <link rel="alternate" type="application/cap+xml" href="${escapeXml(`${baseUrl}/cap/${encodeURIComponent(alert.identifier)}.xml`)}"/>`,
+    "  </entry>"
+  ].join("\n"));
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom">`,
+    "  <id>urn:sentinel-compass:cap-feed</id>",
+    "  <title>Sentinel Compass CAP alerts</title>",
+    "  <author><name>Sentinel Compass</name></author>",
+    `  <updated>${capAlerts[0]?.sent ?? new Date().toISOString()}</updated>`,
+    `  <link rel="self" href="${escapeXml(`${baseUrl}/cap/feed.atom`)}"/>`,
+    ...entries,
+    "</feed>",
+    ""
+  ].join("\n");
+};
+
+const handleGatewayRequest: Connect.NextHandleFunction = async (req, res, next) => {
+  const path = (req.url ?? "/").split("?")[0].replace(/^\/+|\/+$/g, "");
+
+  // Partner systems poll this for CAP alerts
+  if (req.method === "GET" && path === "cap/feed.atom") {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/atom+xml; charset=utf-8");
+    res.end(renderCapFeed(`http://${req.headers.host ?? "localhost"}/gateway`));
+    return;
+  }
+
+  const capDocument = path.match(/^cap\/(.+)\.xml$/);
+  if (req.method === "GET" && capDocument) {
+    const alert = capAlerts.find(candidate => candidate.identifier === decodeURIComponent(capDocument[1]));
+    if (!alert) {
+      sendJson(res, 404, { error: "Unknown CAP alert" });
+      return;
+    }
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "application/cap+xml; charset=utf-8");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Security-Policy", "default-src 'none'");
+    res.end(alert.xml);
+    return;
+  }
+
+  // Published by the app with the operator token, e.g. { "xml": "<alert ...>" }. The feed entry's identifier, sent
+  // time and headline are read from the document, which must be a valid CAP 1.2 alert with status Actual.
+  if (req.method === "POST" && path === "cap") {
+    if (!isOperator(req, res)) return;
+    try {
+      const { xml } = await readJson(req);
+      if (typeof xml !== "string") {
+        sendJson(res, 400, { error: "'xml' is required" });
+        return;
+      }
+      let document;
+      try {
+        document = validateCapDocument(xml);
+      } catch (error) {
+        sendJson(res, 422, { error: error instanceof Error ? error.message : "Not a valid CAP 1.2 document" });
+        return;
+      }
+      const { identifier, sent, status, headline } = document;
+      if (status !== "Actual") {
+        sendJson(res, 422, { error: `Only Actual alerts are published on the feed, not ${status}` });
+        return;
+      }
+      if (capAlerts.some(alert => alert.identifier === identifier)) {
+        sendJson(res, 409, { error: `CAP alert ${identifier} is already published` });
+        return;
+      }
+      capAlerts.unshift({ identifier, sent, headline, xml });
+      capAlerts.splice(CAP_FEED_LIMIT);
+      console.log(`[gateway] CAP ${identifier}: ${headline}`);
+      sendJson(res, 202, { identifier, status: "published" });
+    } catch (error) {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+    }
+    return;
+  }
+
+  // Resident sign-up: { "phoneNumber": "+15551234567", "name": "...", "regions": ["..."], "locale": "en" }
+  if (req.method === "POST" && path === "subscribers/code") {
+    try {
+      const { status, error } = requestVerificationCode(await readJson(req), req.socket.remoteAddress ?? "unknown");
+      sendJson(res, status, error ? { error } : { status: "sent" });
+    } catch (error) {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+    }
+    return;
+  }
+
+  // { "phoneNumber": "+15551234567", "code": "123456" }
+  if (req.method === "POST" && path === "subscribers/verify") {
+    try {
+      const payload = await readJson(req);
+      if (typeof payload.phoneNumber !== "string" || typeof payload.code !== "string") {
+        sendJson(res, 400, { error: "Both 'phoneNumber' and 'code' are required" });
+        return;
+      }
+      const { status, error, subscriber } = verifySubscriber(payload.phoneNumber, payload.code);
+      sendJson(res, status, error ? { error } : subscriber);
+    } catch (error) {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+    }
+    return;
+  }
+
+  // Verified subscribers since the given id, polled by the dashboard to add them to its device registry
+  if (req.method === "GET" && path === "subscribers") {
+    if (!isOperator(req, res)) return;
+    const since = Number(new URL(req.url ?? "/", "http://gateway").searchParams.get("since") ?? 0);
+    res.setHeader("X-Gateway-Instance", GATEWAY_INSTANCE);
+    sendJson(res, 200, subscribers.filter(subscriber => subscriber.id > since));
+    return;
+  }
+
+  // Residents' numbers and messages, so operators only
+  if (req.method === "GET" && path === "outbox") {
+    if (!isOperator(req, res)) return;
+    sendJson(res, 200, outbox);
+    return;
+  }
+
+  // Acknowledgements recorded since the given id, polled by the app
+  if (req.method === "GET" && path === "acks") {
+    const since = Number(new URL(req.url ?? "/", "http://gateway").searchParams.get("since") ?? 0);
+    sendJson(res, 200, acknowledgements.filter(ack => ack.id > since));
+    return;
+  }
+
+  // Confirmation link included in outbound messages. Opening it only shows a button: link previews and mail
+  // scanners fetch links unprompted, so the acknowledgement itself is the POST the button sends.
+  const ackLink = path.match(/^ack\/([A-Za-z0-9]+)$/);
+  if (req.method === "GET" && ackLink) {
+    sendHtml(res, 200, "Confirm receipt", [
+      "<p>Confirm that you received this emergency notification.</p>",
+      `<form method="post" action="${escapeXml(ackLink[1])}"><button type="submit">I received it</button></form>`
+    ].join("\n"));
+    return;
+  }
+
+  if (req.method === "POST" && ackLink) {
+    recordAcknowledgement(ackLink[1], "endpoint");
+    sendHtml(res, 200, "Thank you", "<p>Thank you. Your acknowledgement has been recorded.</p>");
+    return;
+  }
+
+  // Inbound SMS replies, e.g. { "from": "+15551234567", "body": "ACK K7P2QZ" }
+  if (req.method === "POST" && path === "sms/inbound") {
+    try {
+      const payload = await readJson(req);
+      const match = typeof payload.body === "string" ? payload.body.trim().match(ACK_REPLY_PATTERN) : null;
+      if (!match) {
+        sendJson(res, 422, { error: "Reply does not contain an acknowledgement keyword" });
+        return;
+      }
+      const ack = recordAcknowledgement(match[1], "reply", typeof payload.from === "string" ? payload.from : undefined);
+      sendJson(res, 202, { id: ack.id, status: "accepted" });
+    } catch (error) {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+    }
+    return;
+  }
+
+  if (req.method === "POST" && CHANNELS.includes(path)) {
+    try {
+      const payload = await readJson(req);
+      if (typeof payload.to !== "string" || typeof payload.body !== "string") {
+        sendJson(res, 400, { error: "Both 'to' and 'body' are required" });
+        return;
+      }
+
+      const message = deliver(path, payload.to, payload.body, typeof payload.subject === "string" ? payload.subject : undefined);
+      sendJson(res, 202, { id: message.id, status: "accepted" });
+    } catch (error) {
+      sendJson(res, 400, { error: "Invalid JSON body" });
+    }
+    return;
+  }
+
+  next();
+};
+
+export const localGateway = (options: LocalGatewayOptions = {}): Plugin => {
+  operatorToken = options.operatorToken || undefined;
+  return {
+    name: "local-notification-gateway",
+    configureServer(server) {
+      server.middlewares.use("/gateway", handleGatewayRequest);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use("/gateway", handleGatewayRequest);
+    }
+  };
+};
@@ -4,7 +4,13 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Contacts from "./pages/Contacts";
+import Devices from "./pages/Devices";
+import AuditLog from "./pages/AuditLog";
+import Schedule from "./pages/Schedule";
+import Subscribe from "./pages/Subscribe";
 import NotFound from "./pages/NotFound";
+import ExerciseBanner from "./components/ExerciseBanner";
 
 const queryClient = new QueryClient();
 
@@ -14,8 +20,14 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <ExerciseBanner />
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/contacts" element={<Contacts />} />
+          <Route path="/devices" element={<Devices />} />
+          <Route path="/audit" element={<AuditLog />} />
+          <Route path="/schedule" element={<Schedule />} />
+          <Route path="/subscribe" element={<Subscribe />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
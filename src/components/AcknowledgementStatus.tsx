@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CheckCheck, Clock, MessageSquareReply } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAcknowledgements } from '@/hooks/use-acknowledgements';
+import { ACK_KEYWORD, getTimeToAcknowledgeMs, handleReplyMessage, recordAcknowledgement } from '@/services/acknowledgementService';
+
+interface AcknowledgementStatusProps {
+  reportId: string;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const AcknowledgementStatus = ({ reportId }: AcknowledgementStatusProps) => {
+  const acknowledgements = useAcknowledgements(reportId);
+  const [reply, setReply] = useState('');
+  const { toast } = useToast();
+
+  if (acknowledgements.length === 0) return null;
+
+  const acknowledgedCount = acknowledgements.filter(entry => entry.acknowledgedAt).length;
+
+  const handleReply = () => {
+    if (handleReplyMessage(reply)) {
+      setReply('');
+    } else {
+      toast({
+        title: "Reply not recognised",
+        description: `Replies must look like "${ACK_KEYWORD} <token>" with a token from this action.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-2">
+      <p className="text-sm font-medium">
+        Acknowledged: {acknowledgedCount} of {acknowledgements.length}
+      </p>
+      <ul className="space-y-1 text-xs">
+        {acknowledgements.map((entry) => {
+          const timeToAcknowledge = getTimeToAcknowledgeMs(entry);
+          return (
+            <li key={entry.token} className="flex justify-between items-center gap-2">
+              <span>
+                {entry.recipient} <span className="text-muted-foreground">({entry.group}, {entry.token})</span>
+              </span>
+              {timeToAcknowledge !== null ? (
+                <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 text-[10px]">
+                  <CheckCheck className="mr-1 h-3 w-3" /> {formatDuration(timeToAcknowledge)} via {entry.method}
+                </Badge>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200 text-[10px]">
+                    <Clock className="mr-1 h-3 w-3" /> Awaiting
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-[10px]"
+                    onClick={() => recordAcknowledgement(entry.token, 'operator')}
+                  >
+                    Confirm
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {acknowledgedCount < acknowledgements.length && (
+        <div className="flex gap-2">
+          <Input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleReply()}
+            placeholder={`Record SMS reply, e.g. ${ACK_KEYWORD} ${acknowledgements[0].token}`}
+            className="h-7 text-xs"
+          />
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleReply}>
+            <MessageSquareReply className="mr-1 h-3 w-3" /> Record
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AcknowledgementStatus;
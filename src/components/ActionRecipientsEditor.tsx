@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { ActionRecipients, EMERGENCY_ACTION_LABELS, EmergencyActionType } from '@/services/emergencyCommunicationService';
+import { parseTags, setActionRecipients } from '@/services/contactDirectory';
+
+interface TagInputProps {
+  tags: string[];
+  onCommit: (tags: string[]) => void;
+}
+
+// Edits as free text and only saves on blur or Enter, so half-typed tags don't reach the config
+const TagInput = ({ tags, onCommit }: TagInputProps) => {
+  const [text, setText] = useState(tags.join(', '));
+
+  useEffect(() => {
+    setText(tags.join(', '));
+  }, [tags]);
+
+  return (
+    <Input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => onCommit(parseTags(text))}
+      onKeyDown={(e) => e.key === 'Enter' && onCommit(parseTags(text))}
+      placeholder="Role tags, e.g. medical, hazmat"
+      className="h-8 text-xs"
+    />
+  );
+};
+
+const ActionRecipientsEditor = () => {
+  const config = useEmergencyConfig();
+
+  const update = (actionType: EmergencyActionType, change: Partial<ActionRecipients>) => {
+    setActionRecipients(actionType, { ...config.actionRecipients[actionType], ...change });
+  };
+
+  const toggleTeam = (actionType: EmergencyActionType, teamId: string, checked: boolean) => {
+    const { teams } = config.actionRecipients[actionType];
+    update(actionType, { teams: checked ? [...teams, teamId] : teams.filter(id => id !== teamId) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Who Each Action Notifies</CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {(Object.keys(EMERGENCY_ACTION_LABELS) as EmergencyActionType[]).map((actionType) => {
+          const recipients = config.actionRecipients[actionType];
+          return (
+            <div key={actionType} className="space-y-2 rounded-md border p-3">
+              <h3 className="text-sm font-medium">{EMERGENCY_ACTION_LABELS[actionType]}</h3>
+              <div className="space-y-1">
+                {Object.entries(config.teams).map(([teamId, team]) => (
+                  <div key={teamId} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${actionType}-${teamId}`}
+                      checked={recipients.teams.includes(teamId)}
+                      onCheckedChange={(checked) => toggleTeam(actionType, teamId, checked === true)}
+                    />
+                    <Label htmlFor={`${actionType}-${teamId}`} className="text-xs font-normal">{team.teamName}</Label>
+                  </div>
+                ))}
+              </div>
+              <TagInput tags={recipients.tags} onCommit={(tags) => update(actionType, { tags })} />
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`${actionType}-devices`}
+                  checked={recipients.regionDevices}
+                  onCheckedChange={(regionDevices) => update(actionType, { regionDevices })}
+                />
+                <Label htmlFor={`${actionType}-devices`} className="text-xs font-normal">Region devices</Label>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActionRecipientsEditor;
@@ -0,0 +1,139 @@
+import { useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { IssuedAlert } from '@/services/alertHistory';
+import { AlertCorrection } from '@/services/emergencyCommunicationService';
+import { SEVERITIES } from '@/services/routingRules';
+
+const correctionSchema = z.object({
+  regionName: z.string().trim().min(1, "Region is required"),
+  alertMessage: z.string().trim(),
+  instructions: z.string().trim(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+});
+
+type CorrectionFormValues = z.infer<typeof correctionSchema>;
+
+interface AlertCorrectionDialogProps {
+  alert: IssuedAlert | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (correction: AlertCorrection) => void;
+  requiresApproval?: boolean; // The alert falls under the two-person rule, so the correction is drafted
+}
+
+const toFormValues = (alert: IssuedAlert | null): CorrectionFormValues => ({
+  regionName: alert?.regionName ?? '',
+  alertMessage: alert?.variables.alertMessage ?? '',
+  instructions: alert?.variables.instructions ?? '',
+  severity: alert?.severity ?? 'medium',
+});
+
+// Collects the corrected details for an alert; everyone it reached gets the result marked CORRECTION
+const AlertCorrectionDialog = ({ alert, onOpenChange, onSubmit, requiresApproval = false }: AlertCorrectionDialogProps) => {
+  const form = useForm<CorrectionFormValues>({
+    resolver: zodResolver(correctionSchema),
+    defaultValues: toFormValues(alert),
+  });
+
+  useEffect(() => {
+    if (alert) form.reset(toFormValues(alert));
+  }, [alert, form]);
+
+  const handleSubmit = ({ regionName, alertMessage, instructions, severity }: CorrectionFormValues) => {
+    onSubmit({ regionName, severity, details: { alertMessage, instructions } });
+  };
+
+  return (
+    <Dialog open={alert !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Correct {alert?.reportAction}</DialogTitle>
+          <DialogDescription>
+            Sends version {(alert?.version ?? 0) + 1}, marked CORRECTION, to everyone the current version reached and anyone the corrected details now reach.
+            {requiresApproval && ' A second operator must approve it first.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="regionName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Region</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {alert?.actionType === 'alert' && (
+              <FormField
+                control={form.control}
+                name="alertMessage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alert message</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="instructions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Instructions</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="severity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Severity</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {SEVERITIES.map((level) => (
+                        <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit">{requiresApproval ? 'Submit for Approval' : 'Send Correction'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertCorrectionDialog;
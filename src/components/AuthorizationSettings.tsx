@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { useToast } from '@/hooks/use-toast';
+import { addOperator, removeOperator, updateAuthorizationPolicy, updateOperator } from '@/services/actionAuthorization';
+import { EMERGENCY_ACTION_LABELS, EmergencyActionType } from '@/services/emergencyCommunicationService';
+
+// Which actions need a second operator's approval, how long drafts wait for it, and who may approve
+const AuthorizationSettings = () => {
+  const { authorization } = useEmergencyConfig();
+  const { toast } = useToast();
+  const [expiry, setExpiry] = useState(String(authorization.draftExpiryMinutes));
+  const [newOperator, setNewOperator] = useState('');
+
+  useEffect(() => {
+    setExpiry(String(authorization.draftExpiryMinutes));
+  }, [authorization.draftExpiryMinutes]);
+
+  const toggleAction = (actionType: EmergencyActionType, checked: boolean) => {
+    const { twoPersonActions } = authorization;
+    updateAuthorizationPolicy({
+      twoPersonActions: checked ? [...twoPersonActions, actionType] : twoPersonActions.filter(type => type !== actionType),
+    });
+  };
+
+  const commitExpiry = () => {
+    const minutes = Number(expiry);
+    if (Number.isFinite(minutes) && minutes >= 1) {
+      updateAuthorizationPolicy({ draftExpiryMinutes: Math.round(minutes) });
+    } else {
+      setExpiry(String(authorization.draftExpiryMinutes));
+      toast({ title: "Expiry not changed", description: "Drafts must stay open for at least one minute.", variant: "destructive" });
+    }
+  };
+
+  const handleAddOperator = () => {
+    if (!newOperator.trim()) return;
+    addOperator(newOperator, false);
+    setNewOperator('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Two-Person Authorisation</CardTitle>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Actions that need a second operator</p>
+            {(Object.keys(EMERGENCY_ACTION_LABELS) as EmergencyActionType[]).map((actionType) => (
+              <div key={actionType} className="flex items-center gap-2">
+                <Checkbox
+                  id={`two-person-${actionType}`}
+                  checked={authorization.twoPersonActions.includes(actionType)}
+                  onCheckedChange={(checked) => toggleAction(actionType, checked === true)}
+                />
+                <Label htmlFor={`two-person-${actionType}`} className="text-sm font-normal">
+                  {EMERGENCY_ACTION_LABELS[actionType]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="draft-expiry" className="text-sm">Drafts expire after (minutes)</Label>
+            <Input
+              id="draft-expiry"
+              type="number"
+              min={1}
+              value={expiry}
+              onChange={(e) => setExpiry(e.target.value)}
+              onBlur={commitExpiry}
+              onKeyDown={(e) => e.key === 'Enter' && commitExpiry()}
+              className="h-8 w-24 text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Operators</p>
+          {authorization.operators.map((operator) => (
+            <div key={operator.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+              <span>{operator.name}</span>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`approver-${operator.id}`} className="text-xs font-normal text-muted-foreground">Can approve</Label>
+                <Switch
+                  id={`approver-${operator.id}`}
+                  checked={operator.canApprove}
+                  onCheckedChange={(canApprove) => updateOperator(operator.id, { canApprove })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Remove operator"
+                  onClick={() => removeOperator(operator.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              value={newOperator}
+              onChange={(e) => setNewOperator(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddOperator()}
+              placeholder="New operator name"
+              className="h-8 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddOperator}>
+              <Plus className="mr-1 h-4 w-4" /> Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuthorizationSettings;
@@ -0,0 +1,111 @@
+import { useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ContactFormValues, contactSchema } from '@/services/contactDirectory';
+import { LOCALE_LABELS } from '@/services/messageTemplates';
+
+interface ContactFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  initialValues?: ContactFormValues;
+  onSubmit: (values: ContactFormValues) => void;
+}
+
+const emptyContact: ContactFormValues = {
+  name: '',
+  role: '',
+  phoneNumber: '',
+  email: '',
+  tags: '',
+};
+
+const DEFAULT_LANGUAGE = 'default';
+
+const ContactFormDialog = ({ open, onOpenChange, title, description, initialValues, onSubmit }: ContactFormDialogProps) => {
+  const form = useForm<ContactFormValues>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: initialValues ?? emptyContact,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(initialValues ?? emptyContact);
+  }, [open, initialValues, form]);
+
+  const textFields: { name: Exclude<keyof ContactFormValues, 'locale'>; label: string; placeholder: string }[] = [
+    { name: 'name', label: 'Name', placeholder: 'Full name' },
+    { name: 'role', label: 'Role', placeholder: 'e.g. Field Coordinator' },
+    { name: 'phoneNumber', label: 'Phone', placeholder: '+1-555-123-4567' },
+    { name: 'email', label: 'Email', placeholder: 'name@emergency.org' },
+    { name: 'tags', label: 'Role tags', placeholder: 'e.g. medical, hazmat' },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            {textFields.map(({ name, label, placeholder }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={placeholder} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <FormField
+              control={form.control}
+              name="locale"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Language</FormLabel>
+                  <Select
+                    value={field.value ?? DEFAULT_LANGUAGE}
+                    onValueChange={(value) => field.onChange(value === DEFAULT_LANGUAGE ? undefined : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_LANGUAGE}>Default (English)</SelectItem>
+                      {Object.entries(LOCALE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit">Save Contact</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactFormDialog;
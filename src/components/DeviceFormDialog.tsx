@@ -0,0 +1,177 @@
+import { useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { DeviceFormValues, deviceSchema } from '@/services/deviceRegistry';
+import { LOCALE_LABELS } from '@/services/messageTemplates';
+
+interface DeviceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initialValues?: DeviceFormValues;
+  onSubmit: (values: DeviceFormValues) => void;
+}
+
+const emptyDevice: DeviceFormValues = {
+  owner: '',
+  channel: 'sms',
+  address: '',
+  regions: '',
+  location: '',
+  optedIn: true,
+};
+
+const DEFAULT_LANGUAGE = 'default';
+
+const DeviceFormDialog = ({ open, onOpenChange, title, initialValues, onSubmit }: DeviceFormDialogProps) => {
+  const form = useForm<DeviceFormValues>({
+    resolver: zodResolver(deviceSchema),
+    defaultValues: initialValues ?? emptyDevice,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(initialValues ?? emptyDevice);
+  }, [open, initialValues, form]);
+
+  const channel = form.watch('channel');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>Region broadcasts reach opted-in devices registered to the region.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="owner"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Owner</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Person or station using the device" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="channel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Channel</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="sms">SMS</SelectItem>
+                      <SelectItem value="push">Push</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{channel === 'sms' ? 'Phone number' : 'Push token'}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={channel === 'sms' ? '+1-555-123-4567' : 'Device push token'} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="regions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Regions</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Downtown Metro Area, Houston" {...field} />
+                  </FormControl>
+                  <FormDescription>Comma-separated region names, matched exactly.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="location"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Latitude, longitude" {...field} value={field.value ?? ''} />
+                  </FormControl>
+                  <FormDescription>Optional. Needed for the device to receive broadcasts to an area drawn on the map.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="locale"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Language</FormLabel>
+                  <Select
+                    value={field.value ?? DEFAULT_LANGUAGE}
+                    onValueChange={(value) => field.onChange(value === DEFAULT_LANGUAGE ? undefined : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_LANGUAGE}>Default (English)</SelectItem>
+                      {Object.entries(LOCALE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="optedIn"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3 space-y-0">
+                  <FormLabel>Opted in to alerts</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit">Save Device</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeviceFormDialog;
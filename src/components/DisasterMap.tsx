@@ -4,7 +4,11 @@ import 'mapbox-gl/dist/mapbox-gl.css';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PenLine, Search, X } from 'lucide-react';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { getDevicesInArea } from '@/services/deviceRegistry';
+import { GeoPoint, TargetArea, circlePolygon, isValidPolygon, toGeoJsonPolygon } from '@/services/geoArea';
 
 interface DisasterMapProps {
   disasters?: {
@@ -18,11 +22,34 @@ interface DisasterMapProps {
     name: string;
   }[];
   mapboxToken?: string;
+  targetArea?: TargetArea | null;
+  onTargetAreaChange?: (area: TargetArea | null) => void;
 }
 
 const DEFAULT_MAPBOX_TOKEN = 'pk.eyJ1IjoiZGVtb3VzZXIyMDI1IiwiYSI6ImNscm1rOTgyYTBsN3YyanBsMWhmb2xuOHIifQ.sTmW8qmLWb_1ZRuR1oVK8g';
 
-const DisasterMap = ({ disasters = [], mapboxToken }: DisasterMapProps) => {
+const TARGET_AREA_SOURCE = 'target-area';
+
+// Radius of the area selected around a disaster, by severity
+const SEVERITY_AREA_KM = {
+  low: 5,
+  medium: 10,
+  high: 20,
+  critical: 30,
+};
+
+// Shows the given points as a polygon once there are enough of them, or as the outline drawn so far
+const showTargetArea = (map: mapboxgl.Map | null, points: GeoPoint[]) => {
+  const source = map?.getSource(TARGET_AREA_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+  if (!source) return;
+
+  const feature: GeoJSON.Feature = isValidPolygon(points)
+    ? toGeoJsonPolygon(points)
+    : { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: points.map(({ latitude, longitude }) => [longitude, latitude]) } };
+  source.setData({ type: 'FeatureCollection', features: points.length > 0 ? [feature] : [] });
+};
+
+const DisasterMap = ({ disasters = [], mapboxToken, targetArea = null, onTargetAreaChange }: DisasterMapProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const markers = useRef<mapboxgl.Marker[]>([]);
@@ -30,6 +57,12 @@ const DisasterMap = ({ disasters = [], mapboxToken }: DisasterMapProps) => {
   const [apiToken, setApiToken] = useState(mapboxToken || DEFAULT_MAPBOX_TOKEN);
   const [tokenInput, setTokenInput] = useState(false);
   const [mapError, setMapError] = useState<string | null>(null);
+  const [draftPoints, setDraftPoints] = useState<GeoPoint[] | null>(null); // Set while the operator is drawing
+  const drawing = useRef(false);
+  const areaPoints = useRef<GeoPoint[]>([]); // What the map should show, for layers added after the area was chosen
+  areaPoints.current = draftPoints ?? targetArea?.polygon ?? [];
+  const { devices } = useEmergencyConfig();
+  const devicesInArea = targetArea ? getDevicesInArea(devices, targetArea.polygon) : [];
 
   const colorMap = {
     flood: '#0EA5E9',
@@ -85,6 +118,12 @@ const DisasterMap = ({ disasters = [], mapboxToken }: DisasterMapProps) => {
 
       map.current.on('load', () => {
         addDisasterMarkers();
+        addTargetAreaLayers();
+      });
+
+      map.current.on('click', (e) => {
+        if (!drawing.current) return;
+        setDraftPoints(points => [...(points ?? []), { latitude: e.lngLat.lat, longitude: e.lngLat.lng }]);
       });
     } catch (error) {
       console.error('Error initializing map:', error);
@@ -130,6 +169,50 @@ const DisasterMap = ({ disasters = [], mapboxToken }: DisasterMapProps) => {
     });
   };
 
+  const addTargetAreaLayers = () => {
+    if (!map.current || map.current.getSource(TARGET_AREA_SOURCE)) return;
+
+    map.current.addSource(TARGET_AREA_SOURCE, { type: 'geojson', data: { type: 'FeatureCollection', features: [] } });
+    map.current.addLayer({
+      id: 'target-area-fill',
+      type: 'fill',
+      source: TARGET_AREA_SOURCE,
+      filter: ['==', '$type', 'Polygon'],
+      paint: { 'fill-color': '#ea384c', 'fill-opacity': 0.15 },
+    });
+    map.current.addLayer({
+      id: 'target-area-outline',
+      type: 'line',
+      source: TARGET_AREA_SOURCE,
+      paint: { 'line-color': '#ea384c', 'line-width': 2, 'line-dasharray': [2, 1] },
+    });
+    showTargetArea(map.current, areaPoints.current);
+  };
+
+  const startDrawing = () => {
+    drawing.current = true;
+    setDraftPoints([]);
+    map.current?.getCanvas().style.setProperty('cursor', 'crosshair');
+  };
+
+  const stopDrawing = (polygon?: GeoPoint[]) => {
+    drawing.current = false;
+    setDraftPoints(null);
+    map.current?.getCanvas().style.removeProperty('cursor');
+    if (polygon) onTargetAreaChange?.({ name: 'Drawn area', polygon });
+  };
+
+  const selectDisasterArea = (disasterId: string) => {
+    const disaster = disasters.find(candidate => candidate.id === disasterId);
+    if (!disaster) return;
+
+    stopDrawing();
+    onTargetAreaChange?.({
+      name: `Around ${disaster.name}`,
+      polygon: circlePolygon(disaster.location, SEVERITY_AREA_KM[disaster.severity]),
+    });
+  };
+
   useEffect(() => {
     initializeMap();
 
@@ -147,6 +230,10 @@ const DisasterMap = ({ disasters = [], mapboxToken }: DisasterMapProps) => {
     }
   }, [disasters]);
 
+  useEffect(() => {
+    showTargetArea(map.current, draftPoints ?? targetArea?.polygon ?? []);
+  }, [draftPoints, targetArea]);
+
   const handleSearch = () => {
     if (!map.current || !searchQuery) return;
 
@@ -224,6 +311,45 @@ const DisasterMap = ({ disasters = [], mapboxToken }: DisasterMapProps) => {
               </Button>
             </div>
             
+            <div className="flex flex-wrap items-center gap-2">
+              {draftPoints ? (
+                <>
+                  <Button size="sm" disabled={!isValidPolygon(draftPoints)} onClick={() => stopDrawing(draftPoints)}>
+                    Finish Area ({draftPoints.length} {draftPoints.length === 1 ? 'point' : 'points'})
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => stopDrawing()}>Cancel</Button>
+                  <span className="text-xs text-muted-foreground">Click the map to add at least three corners.</span>
+                </>
+              ) : (
+                <>
+                  <Button size="sm" variant="outline" onClick={startDrawing}>
+                    <PenLine className="mr-2 h-4 w-4" /> Draw Target Area
+                  </Button>
+                  <Select value="" onValueChange={selectDisasterArea}>
+                    <SelectTrigger className="w-[220px] h-9">
+                      <SelectValue placeholder="Target area around..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {disasters.map((disaster) => (
+                        <SelectItem key={disaster.id} value={disaster.id}>{disaster.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+              {targetArea && !draftPoints && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span>
+                    <span className="font-medium">{targetArea.name}:</span>{' '}
+                    {devicesInArea.length} registered {devicesInArea.length === 1 ? 'device' : 'devices'} inside
+                  </span>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Clear target area" onClick={() => onTargetAreaChange?.(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
             {mapError ? (
               <div className="p-4 bg-destructive/10 text-destructive rounded-md">
                 <p className="font-medium">Map Error</p>
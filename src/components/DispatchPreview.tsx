@@ -0,0 +1,111 @@
+import { Badge } from '@/components/ui/badge';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { OutboundMessage } from '@/services/dispatchEngine';
+import { ActionPreview } from '@/services/emergencyCommunicationService';
+import { countSmsSegments } from '@/services/smsSegments';
+
+interface DispatchPreviewProps {
+  preview: ActionPreview;
+}
+
+const SmsSegmentBadge = ({ body, budget }: { body: string; budget: number }) => {
+  const { encoding, units, segments } = countSmsSegments(body);
+  return (
+    <Badge
+      variant={segments > budget ? 'destructive' : segments > 1 ? 'secondary' : 'outline'}
+      className="text-[10px]"
+      title={segments > budget ? `Over the budget of ${budget} ${budget === 1 ? 'segment' : 'segments'}` : undefined}
+    >
+      {segments} {segments === 1 ? 'segment' : 'segments'} · {encoding} · {units} chars
+    </Badge>
+  );
+};
+
+const MessageStep = ({ step, fallback, budget }: { step: OutboundMessage; fallback: boolean; budget: number }) => (
+  <div className="space-y-1">
+    <div className="flex flex-wrap items-center gap-1">
+      <Badge variant="outline" className="text-[10px] uppercase">{step.channel}</Badge>
+      <span className="text-muted-foreground">{step.address}</span>
+      {fallback && <span className="text-muted-foreground">(fallback)</span>}
+      {step.channel === 'sms' && <SmsSegmentBadge body={step.body} budget={budget} />}
+      {step.shortForm && (
+        <Badge variant="outline" className="text-[10px]" title="The full message was over the SMS budget; email and push keep it">
+          Short form
+        </Badge>
+      )}
+    </div>
+    {step.channel !== 'sms' && <p className="font-medium">{step.subject}</p>}
+    <p className="whitespace-pre-wrap rounded bg-muted p-2">{step.body}</p>
+  </div>
+);
+
+// Every message a dry run of the action produced, per recipient, in the order they would be tried
+const DispatchPreview = ({ preview }: DispatchPreviewProps) => {
+  const { smsSegmentBudget } = useEmergencyConfig();
+  const firstAttempts = preview.jobs.map((job) => job.steps[0]);
+  const smsSegments = firstAttempts
+    .filter((step) => step.channel === 'sms')
+    .reduce((total, step) => total + countSmsSegments(step.body).segments, 0);
+  const smsSteps = preview.jobs.flatMap((job) => job.steps.filter((step) => step.channel === 'sms'));
+  const shortened = smsSteps.filter((step) => step.shortForm).length;
+  const overBudget = smsSteps.filter((step) => countSmsSegments(step.body).segments > smsSegmentBudget).length;
+  const budgetLabel = `${smsSegmentBudget} ${smsSegmentBudget === 1 ? 'segment' : 'segments'}`;
+  const channelCounts = firstAttempts.reduce<Record<string, number>>((counts, step) => ({
+    ...counts,
+    [step.channel]: (counts[step.channel] ?? 0) + 1,
+  }), {});
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="font-medium">Messages ({preview.jobs.length} {preview.jobs.length === 1 ? 'recipient' : 'recipients'})</p>
+      <p className="text-xs text-muted-foreground">
+        First attempts: {Object.entries(channelCounts).map(([channel, count]) => `${count} ${channel}`).join(', ') || 'none'}
+        {smsSegments > 0 && `; ${smsSegments} SMS ${smsSegments === 1 ? 'segment' : 'segments'}`}.
+        Acknowledgement codes are shown as placeholders.
+      </p>
+      {shortened > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {shortened} SMS {shortened === 1 ? 'goes' : 'go'} in short form to stay within {budgetLabel}; email keeps the full text.
+        </p>
+      )}
+      {overBudget > 0 && (
+        <p className="rounded-md border border-red-300 bg-red-50 p-2 text-xs text-red-900">
+          {overBudget} SMS {overBudget === 1 ? 'is' : 'are'} over the budget of {budgetLabel} even in short form.
+          Shorten the first sentence of the SMS template, or raise the budget, to bring {overBudget === 1 ? 'it' : 'them'} down.
+          Leave room too for escalations: they put a notice naming the unresponsive team lead in front of the short form.
+        </p>
+      )}
+      {preview.exercise && (
+        <p className="rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-900">
+          Exercise: every message is marked as a drill and goes only to the local sink or the drill participants.
+        </p>
+      )}
+      <ul className="max-h-72 space-y-1 overflow-y-auto pr-1 text-xs">
+        {preview.jobs.map((job, index) => (
+          <li key={`${job.steps[0].recipient}-${index}`} className="rounded-md border">
+            <details>
+              <summary className="flex cursor-pointer items-center justify-between gap-2 p-2">
+                <span>
+                  <span className="font-medium">{job.steps[0].recipient}</span>{' '}
+                  <span className="text-muted-foreground">{job.steps[0].group}</span>
+                </span>
+                <span className="flex gap-1">
+                  {job.steps.map((step) => (
+                    <Badge key={step.channel} variant="outline" className="text-[10px] uppercase">{step.channel}</Badge>
+                  ))}
+                </span>
+              </summary>
+              <div className="space-y-2 border-t p-2">
+                {job.steps.map((step, stepIndex) => (
+                  <MessageStep key={step.channel} step={step} fallback={stepIndex > 0} budget={smsSegmentBudget} />
+                ))}
+              </div>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DispatchPreview;
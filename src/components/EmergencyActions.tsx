@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Form, FormField, FormItem, FormLabel, FormControl, FormDescription } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -10,16 +12,46 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { Badge } from '@/components/ui/badge';
-import { Ambulance, HeartPulse, Truck, Activity, Warehouse, Utensils, Droplets, AlertOctagon, Bell, HelpingHand, CheckCircle, Loader2, Phone, Plus } from 'lucide-react';
+import { Ambulance, HeartPulse, Truck, Activity, Warehouse, Utensils, Droplets, AlertOctagon, Bell, HelpingHand, CheckCircle, Loader2, Phone, UserPlus, XCircle } from 'lucide-react';
 import { 
   initiateEvacuation, 
   sendRegionAlert, 
   requestEmergencyResources, 
   signalAllClear,
-  addCustomPhoneNumber
+  sendAlertUpdate,
+  cancelAlert,
+  previewEmergencyAction,
+  getActiveBroadcast,
+  AlertCorrection,
+  EmergencyActionOptions,
+  EmergencyActionType
 } from '@/services/emergencyCommunicationService';
+import { SEVERITIES, Severity } from '@/services/routingRules';
+import { TemplateVariables } from '@/services/messageTemplates';
+import { deviceAddress, getDevicesInArea, getRegionDevices } from '@/services/deviceRegistry';
+import { TargetArea } from '@/services/geoArea';
+import { DeliveryReport, summarizeDeliveryReport } from '@/services/deliveryReport';
+import { DispatchOptions, DispatchProgress } from '@/services/dispatchEngine';
+import { Progress } from '@/components/ui/progress';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
 import NotificationSummary from './NotificationSummary';
-import { Alert, AlertDescription } from '@/components/ui/alert';
+import MessageTemplateEditor from './MessageTemplateEditor';
+import RecipientPreview from './RecipientPreview';
+import DispatchPreview from './DispatchPreview';
+import ExerciseOutbox from './ExerciseOutbox';
+import AlertCorrectionDialog from './AlertCorrectionDialog';
+import PendingApprovals from './PendingApprovals';
+import { IssuedAlert, getIssuedAlert } from '@/services/alertHistory';
+import {
+  ActionDraft,
+  ActionRequest,
+  DraftAmendment,
+  approveDraft,
+  draftAction,
+  rejectDraft,
+  requiresSecondApprover,
+} from '@/services/actionAuthorization';
+import { useCurrentOperator } from '@/hooks/use-action-drafts';
 
 const resourcePredictionSchema = z.object({
   disasterType: z.enum(['flood', 'fire', 'earthquake', 'hurricane']),
@@ -34,15 +66,56 @@ type ResourcePredictionFormValues = z.infer<typeof resourcePredictionSchema>;
 interface NotificationRecord {
   id: string;
   action: string;
-  status: 'success' | 'error' | 'pending';
-  recipients: {
-    type: string;
-    count: number;
-  }[];
+  status: 'success' | 'partial' | 'error' | 'cancelled' | 'pending';
+  report: DeliveryReport | null;
   timestamp: string;
+  exercise: boolean; // Exercise and live notifications are listed separately
 }
 
-const EmergencyActions = () => {
+const actionToasts: Record<string, { title: string; description: string; variant: 'default' | 'destructive' }> = {
+  'Evacuation': {
+    title: "Evacuation initiated",
+    description: "Emergency responders have been notified. Messages sent to team members.",
+    variant: "destructive",
+  },
+  'Alert': {
+    title: "Alert sent to region",
+    description: "Alert has been sent to all devices in the affected area.",
+    variant: "destructive",
+  },
+  'Resources Request': {
+    title: "Resources Request initiated",
+    description: "Resource request has been sent to the emergency response team.",
+    variant: "destructive",
+  },
+  'All Clear': {
+    title: "All Clear signal sent",
+    description: "All clear notification has been sent to all affected personnel and devices.",
+    variant: "default",
+  },
+};
+
+const actionTypes: Record<string, EmergencyActionType> = {
+  'Evacuation': 'evacuation',
+  'Alert': 'alert',
+  'Resources Request': 'resources',
+  'All Clear': 'allClear',
+};
+
+const REGION_ALERT_MESSAGE = "Emergency situation in progress";
+const REQUESTED_RESOURCES = ["Emergency Medical Supplies", "Water Purification Units", "Temporary Shelters"];
+
+// The message variables each action adds on top of the operator's details, for previews
+const actionVariables: Record<string, Partial<TemplateVariables>> = {
+  'Alert': { alertMessage: REGION_ALERT_MESSAGE },
+  'Resources Request': { resources: REQUESTED_RESOURCES.join(", ") },
+};
+
+interface EmergencyActionsProps {
+  targetArea?: TargetArea | null; // Drawn or selected on the map; limits region devices to those inside it
+}
+
+const EmergencyActions = ({ targetArea = null }: EmergencyActionsProps) => {
   const { toast } = useToast();
   const [predictionResults, setPredictionResults] = useState<null | {
     food: number;
@@ -62,8 +135,30 @@ const EmergencyActions = () => {
   const [notificationHistory, setNotificationHistory] = useState<NotificationRecord[]>([]);
   const [isLoading, setIsLoading] = useState<string | null>(null);
   const [regionName, setRegionName] = useState("Downtown Metro Area");
-  const [phoneNumber, setPhoneNumber] = useState("");
-  const [addedPhoneNumbers, setAddedPhoneNumbers] = useState<string[]>([]);
+  const [messageDetails, setMessageDetails] = useState({
+    disasterType: "flood",
+    shelterLocation: "",
+    instructions: "",
+  });
+  const [severity, setSeverity] = useState<Severity>('medium');
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [correctingAlert, setCorrectingAlert] = useState<IssuedAlert | null>(null);
+  const [cancellingAlert, setCancellingAlert] = useState<IssuedAlert | null>(null);
+  const config = useEmergencyConfig();
+  const { devices, exercise } = config;
+  const operator = useCurrentOperator();
+  const regionDevices = targetArea ? getDevicesInArea(devices, targetArea.polygon) : getRegionDevices(devices, regionName);
+  const [dispatchProgress, setDispatchProgress] = useState<DispatchProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const visibleHistory = notificationHistory.filter((notification) => notification.exercise === exercise.active);
+  const pendingPreview = useMemo(
+    () => pendingAction && previewEmergencyAction(actionTypes[pendingAction], regionName, actionVariables[pendingAction], config, {
+      details: messageDetails,
+      severity,
+      area: targetArea ?? undefined,
+    }),
+    [pendingAction, regionName, messageDetails, severity, targetArea, config],
+  );
 
   const form = useForm<ResourcePredictionFormValues>({
     resolver: zodResolver(resourcePredictionSchema),
@@ -77,45 +172,41 @@ const EmergencyActions = () => {
 
   const watchDisasterType = form.watch("disasterType");
 
-  const handleAddPhoneNumber = () => {
-    if (!phoneNumber) {
-      toast({
-        title: "Error",
-        description: "Please enter a valid phone number",
-        variant: "destructive",
-      });
-      return;
+  const currentRequest = (): ActionRequest => ({ regionName, details: messageDetails, severity, area: targetArea ?? undefined });
+
+  const dispatchAction = (action: string, dispatchOptions: EmergencyActionOptions, request = currentRequest()): Promise<DeliveryReport> => {
+    const { regionName, details, severity, area } = request;
+    const options = { ...dispatchOptions, details, severity, area };
+    switch (action) {
+      case 'Evacuation':
+        return initiateEvacuation(regionName, undefined, options);
+      case 'Alert':
+        return sendRegionAlert(regionName, REGION_ALERT_MESSAGE, undefined, options);
+      case 'Resources Request':
+        return requestEmergencyResources(regionName, REQUESTED_RESOURCES, undefined, options);
+      case 'All Clear':
+        return signalAllClear(regionName, undefined, options);
+      default:
+        return Promise.reject(new Error(`Unknown emergency action: ${action}`));
     }
+  };
 
-    const phoneRegex = /^\+?[0-9]{10,15}$/;
-    if (!phoneRegex.test(phoneNumber)) {
+  const handleEmergencyAction = async (
+    action: string,
+    dispatch = (dispatchOptions: DispatchOptions) => dispatchAction(action, dispatchOptions),
+  ) => {
+    // The service sends one broadcast at a time, including scheduled ones; say so before recording an attempt
+    const activeBroadcast = getActiveBroadcast();
+    if (activeBroadcast || abortControllerRef.current) {
       toast({
-        title: "Invalid Phone Number",
-        description: "Please enter a valid phone number (10-15 digits, optionally with + prefix)",
+        title: `${action} not started`,
+        description: `Wait for the ${activeBroadcast ?? isLoading ?? 'current'} broadcast to finish or cancel it first.`,
         variant: "destructive",
       });
       return;
     }
-
-    addCustomPhoneNumber(phoneNumber);
-    
-    if (!addedPhoneNumbers.includes(phoneNumber)) {
-      setAddedPhoneNumbers(prev => [...prev, phoneNumber]);
-      toast({
-        title: "Phone Number Added",
-        description: `${phoneNumber} will now receive emergency alerts`,
-      });
-    } else {
-      toast({
-        title: "Phone Number Already Added",
-        description: `${phoneNumber} is already registered to receive alerts`,
-      });
-    }
-    
-    setPhoneNumber("");
-  };
-
-  const handleEmergencyAction = async (action: string) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsLoading(action);
     
     const notificationId = Date.now().toString();
@@ -123,159 +214,143 @@ const EmergencyActions = () => {
       id: notificationId,
       action,
       status: 'pending',
-      recipients: [],
-      timestamp: new Date().toLocaleString()
+      report: null,
+      timestamp: new Date().toLocaleString(),
+      exercise: exercise.active,
     };
+    setNotificationHistory(prev => [newNotification, ...prev]);
     
-    switch (action) {
-      case 'Evacuation': {
-        newNotification.recipients = [
-          { type: 'Team Leaders', count: 1 },
-          { type: 'Team Members', count: 2 },
-        ];
-        setNotificationHistory(prev => [newNotification, ...prev]);
-        
-        try {
-          const result = await initiateEvacuation(regionName);
-          if (result) {
-            toast({
-              title: `${action} initiated`,
-              description: "Emergency responders have been notified. Messages sent to team members.",
-              variant: "destructive",
-            });
-            setNotificationHistory(prev => 
-              prev.map(n => n.id === notificationId ? { ...n, status: 'success' } : n)
-            );
-          } else {
-            throw new Error("Failed to send all notifications");
-          }
-        } catch (error) {
-          console.error(`Failed to initiate ${action}:`, error);
-          toast({
-            title: `${action} notification error`,
-            description: "Some notifications failed to send. Please try again.",
-            variant: "destructive",
-          });
-          setNotificationHistory(prev => 
-            prev.map(n => n.id === notificationId ? { ...n, status: 'error' } : n)
-          );
-        }
-        break;
-      }
+    try {
+      const report = await dispatch({
+        signal: abortController.signal,
+        onProgress: setDispatchProgress,
+      });
+      const { sent, failed, cancelled, total } = summarizeDeliveryReport(report);
+      const status: NotificationRecord['status'] =
+        cancelled > 0 ? 'cancelled' : failed === 0 ? 'success' : sent === 0 ? 'error' : 'partial';
       
-      case 'Alert': {
-        newNotification.recipients = [
-          { type: 'Team Leaders', count: 1 },
-          { type: 'Team Members', count: 2 },
-          { type: 'Regional Devices', count: 3 }
-        ];
-        setNotificationHistory(prev => [newNotification, ...prev]);
-        
-        try {
-          const result = await sendRegionAlert(regionName, "Emergency situation in progress");
-          if (result) {
-            toast({
-              title: `${action} sent to region`,
-              description: "Alert has been sent to all devices in the affected area.",
-              variant: "destructive",
-            });
-            setNotificationHistory(prev => 
-              prev.map(n => n.id === notificationId ? { ...n, status: 'success' } : n)
-            );
-          } else {
-            throw new Error("Failed to send all alerts");
-          }
-        } catch (error) {
-          console.error(`Failed to send ${action}:`, error);
-          toast({
-            title: `${action} notification error`,
-            description: "Some alerts failed to send. Please try again.",
-            variant: "destructive",
-          });
-          setNotificationHistory(prev => 
-            prev.map(n => n.id === notificationId ? { ...n, status: 'error' } : n)
-          );
-        }
-        break;
-      }
+      setNotificationHistory(prev => 
+        prev.map(n => n.id === notificationId ? { ...n, status, report } : n)
+      );
       
-      case 'Resources Request': {
-        newNotification.recipients = [
-          { type: 'Resource Team Lead', count: 1 },
-          { type: 'Resource Coordinators', count: 2 },
-        ];
-        setNotificationHistory(prev => [newNotification, ...prev]);
-        
-        const resourcesList = ["Emergency Medical Supplies", "Water Purification Units", "Temporary Shelters"];
-        
-        try {
-          const result = await requestEmergencyResources(regionName, resourcesList);
-          if (result) {
-            toast({
-              title: `${action} initiated`,
-              description: "Resource request has been sent to the emergency response team.",
-              variant: "destructive",
-            });
-            setNotificationHistory(prev => 
-              prev.map(n => n.id === notificationId ? { ...n, status: 'success' } : n)
-            );
-          } else {
-            throw new Error("Failed to send resource requests");
-          }
-        } catch (error) {
-          console.error(`Failed to request ${action}:`, error);
-          toast({
-            title: `${action} notification error`,
-            description: "Failed to send resource request. Please try again.",
-            variant: "destructive",
-          });
-          setNotificationHistory(prev => 
-            prev.map(n => n.id === notificationId ? { ...n, status: 'error' } : n)
-          );
-        }
-        break;
-      }
-      
-      case 'All Clear': {
-        newNotification.recipients = [
-          { type: 'All Clear Team Lead', count: 1 },
-          { type: 'All Clear Team', count: 2 },
-          { type: 'Regional Devices', count: 3 }
-        ];
-        setNotificationHistory(prev => [newNotification, ...prev]);
-        
-        try {
-          const result = await signalAllClear(regionName);
-          if (result) {
-            toast({
-              title: `${action} signal sent`,
-              description: "All clear notification has been sent to all affected personnel and devices.",
-              variant: "default",
-            });
-            setNotificationHistory(prev => 
-              prev.map(n => n.id === notificationId ? { ...n, status: 'success' } : n)
-            );
-          } else {
-            throw new Error("Failed to send all clear signal");
-          }
-        } catch (error) {
-          console.error(`Failed to signal ${action}:`, error);
-          toast({
-            title: `${action} notification error`,
-            description: "Failed to send all clear signal. Please try again.",
-            variant: "destructive",
-          });
-          setNotificationHistory(prev => 
-            prev.map(n => n.id === notificationId ? { ...n, status: 'error' } : n)
-          );
-        }
-        break;
+      if (cancelled > 0) {
+        toast({
+          title: `${action} cancelled`,
+          description: `Broadcast stopped after ${sent + failed} of ${total} notifications. ${cancelled} were not sent.`,
+        });
+      } else if (failed === 0) {
+        const { title, description, variant } = actionToasts[action] ?? {
+          title: `${action} sent`,
+          description: `${sent} of ${total} notifications sent.`,
+          variant: 'default',
+        };
+        toast({ title, description, variant });
+      } else {
+        toast({
+          title: `${action} notification error`,
+          description: `${failed} of ${total} notifications failed to send. See the notification summary for details.`,
+          variant: "destructive",
+        });
       }
+    } catch (error) {
+      console.error(`Failed to send ${action}:`, error);
+      toast({
+        title: `${action} notification error`,
+        description: "Notifications could not be sent. Please try again.",
+        variant: "destructive",
+      });
+      setNotificationHistory(prev => 
+        prev.map(n => n.id === notificationId ? { ...n, status: 'error' } : n)
+      );
     }
     
+    abortControllerRef.current = null;
+    setDispatchProgress(null);
     setIsLoading(null);
   };
 
+  // Two-person actions, and corrections or cancellations of them, are held as a draft until another authorised operator approves them
+  const submitDraft = (label: string, actionType: EmergencyActionType, request: ActionRequest, amends?: DraftAmendment) => {
+    if (!operator) {
+      toast({ title: "No operator selected", description: "Choose who you are before drafting an action.", variant: "destructive" });
+      return;
+    }
+    const draft = draftAction(actionType, request, operator.id, undefined, amends);
+    toast({
+      title: `${label} awaiting approval`,
+      description: `A second authorised operator must approve it before ${new Date(draft.expiresAt).toLocaleTimeString()}.`,
+    });
+  };
+
+  const handleDraftAction = (action: string) => submitDraft(action, actionTypes[action], currentRequest());
+
+  const handleApproveDraft = (draft: ActionDraft) => {
+    const action = Object.keys(actionTypes).find(label => actionTypes[label] === draft.actionType);
+    // Don't mark the draft approved if it couldn't be sent straight away
+    const activeBroadcast = getActiveBroadcast();
+    if (abortControllerRef.current || activeBroadcast) {
+      toast({
+        title: "Not approved yet",
+        description: `Wait for the ${activeBroadcast ?? isLoading ?? 'current'} broadcast to finish, then approve the draft.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      approveDraft(draft.id, operator?.id ?? null);
+    } catch (error) {
+      toast({ title: "Approval failed", description: (error as Error).message, variant: "destructive" });
+      return;
+    }
+    const approval = { requestedBy: draft.draftedBy, approvedBy: operator?.id };
+    const { amends } = draft;
+    if (amends) {
+      const reportAction = getIssuedAlert(amends.reportId)?.reportAction ?? action;
+      handleEmergencyAction(`${reportAction} ${amends.msgType === 'Cancel' ? 'Cancellation' : 'Correction'}`, (dispatchOptions) =>
+        amends.msgType === 'Cancel'
+          ? cancelAlert(amends.reportId, undefined, { ...dispatchOptions, ...approval })
+          : sendAlertUpdate(amends.reportId, amends.correction ?? {}, undefined, { ...dispatchOptions, ...approval }));
+      return;
+    }
+    handleEmergencyAction(action, (dispatchOptions) => dispatchAction(action, { ...dispatchOptions, ...approval }, draft.request));
+  };
+
+  const handleRejectDraft = (draft: ActionDraft) => {
+    rejectDraft(draft.id, operator?.id ?? draft.draftedBy);
+  };
+
+  const handleCorrection = (correction: AlertCorrection) => {
+    if (!correctingAlert) return;
+    const { reportId, reportAction, actionType } = correctingAlert;
+    setCorrectingAlert(null);
+    if (requiresSecondApprover(actionType)) {
+      const area = correction.area === null ? undefined : correction.area ?? correctingAlert.area;
+      submitDraft(`${reportAction} Correction`, actionType, {
+        regionName: correction.regionName ?? correctingAlert.regionName,
+        details: { ...correctingAlert.variables, ...correction.details },
+        severity: correction.severity ?? correctingAlert.severity,
+        area,
+      }, { msgType: 'Update', reportId, correction });
+      return;
+    }
+    handleEmergencyAction(`${reportAction} Correction`, (dispatchOptions) => sendAlertUpdate(reportId, correction, undefined, dispatchOptions));
+  };
+
+  const handleCancelAlert = () => {
+    if (!cancellingAlert) return;
+    const { reportId, reportAction, actionType, regionName, variables, severity, area } = cancellingAlert;
+    setCancellingAlert(null);
+    if (requiresSecondApprover(actionType)) {
+      submitDraft(`${reportAction} Cancellation`, actionType, { regionName, details: variables, severity, area }, { msgType: 'Cancel', reportId });
+      return;
+    }
+    handleEmergencyAction(`${reportAction} Cancellation`, (dispatchOptions) => cancelAlert(reportId, undefined, dispatchOptions));
+  };
+
+  const cancelEmergencyAction = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const generateResourcePrediction = (values: ResourcePredictionFormValues) => {
     const baseResources = {
       food: 3000,
@@ -411,55 +486,84 @@ const EmergencyActions = () => {
               placeholder="Enter region name"
               className="flex-1"
             />
+            {targetArea && (
+              <p className="text-xs text-muted-foreground">
+                Region devices are limited to the map area "{targetArea.name}".
+              </p>
+            )}
+          </div>
+          
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Select
+              value={messageDetails.disasterType}
+              onValueChange={(value) => setMessageDetails(prev => ({ ...prev, disasterType: value }))}
+            >
+              <SelectTrigger aria-label="Disaster type">
+                <SelectValue placeholder="Disaster type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flood">Flood</SelectItem>
+                <SelectItem value="fire">Fire</SelectItem>
+                <SelectItem value="earthquake">Earthquake</SelectItem>
+                <SelectItem value="hurricane">Hurricane</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as Severity)}>
+              <SelectTrigger aria-label="Severity">
+                <SelectValue placeholder="Severity" />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITIES.map((level) => (
+                  <SelectItem key={level} value={level} className="capitalize">{level} severity</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={messageDetails.shelterLocation}
+              onChange={(e) => setMessageDetails(prev => ({ ...prev, shelterLocation: e.target.value }))}
+              placeholder="Shelter location"
+            />
+            <Input
+              value={messageDetails.instructions}
+              onChange={(e) => setMessageDetails(prev => ({ ...prev, instructions: e.target.value }))}
+              placeholder="Instructions"
+            />
           </div>
           
           <div className="space-y-2">
-            <label htmlFor="phone-input" className="text-sm font-medium">Add Your Phone Number to Alert List</label>
-            <div className="flex gap-2">
-              <Input 
-                id="phone-input"
-                value={phoneNumber} 
-                onChange={(e) => setPhoneNumber(e.target.value)}
-                placeholder="e.g. +12345678901"
-                className="flex-1"
-              />
-              <Button 
-                onClick={handleAddPhoneNumber}
-                variant="outline"
-                size="icon"
-                type="button"
-              >
-                <Plus className="h-4 w-4" />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Resident Sign-up</p>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/subscribe"><UserPlus className="mr-2 h-4 w-4" /> Sign-up Page</Link>
               </Button>
             </div>
-            
-            {addedPhoneNumbers.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Residents register their own numbers on the public sign-up page and confirm them with a code sent by SMS.
+            </p>
+
+            {regionDevices.length > 0 && (
               <div className="mt-2">
-                <p className="text-xs text-muted-foreground mb-1">Your devices receiving alerts:</p>
+                <p className="text-xs text-muted-foreground mb-1">
+                  {targetArea ? `Devices inside ${targetArea.name}:` : `Devices registered to ${regionName}:`}
+                </p>
                 <div className="flex flex-wrap gap-2">
-                  {addedPhoneNumbers.map((number, index) => (
-                    <Badge key={index} variant="secondary" className="flex items-center gap-1">
+                  {regionDevices.map((device) => (
+                    <Badge key={device.id} variant="secondary" className="flex items-center gap-1" title={device.owner}>
                       <Phone className="h-3 w-3" />
-                      {number}
+                      {deviceAddress(device)}
                     </Badge>
                   ))}
                 </div>
               </div>
             )}
-            
-            <Alert className="bg-muted/50 mt-2">
-              <AlertDescription className="text-xs">
-                In a real emergency system, this would send actual SMS messages to your phone. For this demo, messages are simulated in the console.
-              </AlertDescription>
-            </Alert>
           </div>
         </div>
         
         <div className="space-y-3">
           <Button 
             className="w-full emergency-button bg-red-600 hover:bg-red-700 text-white"
-            onClick={() => handleEmergencyAction('Evacuation')}
-            disabled={isLoading === 'Evacuation'}
+            onClick={() => setPendingAction('Evacuation')}
+            disabled={isLoading !== null}
           >
             {isLoading === 'Evacuation' ? (
               <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Initiating Evacuation...</>
@@ -470,8 +574,8 @@ const EmergencyActions = () => {
           
           <Button 
             className="w-full warning-button bg-amber-500 hover:bg-amber-600 text-white"
-            onClick={() => handleEmergencyAction('Alert')}
-            disabled={isLoading === 'Alert'}
+            onClick={() => setPendingAction('Alert')}
+            disabled={isLoading !== null}
           >
             {isLoading === 'Alert' ? (
               <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending Alert...</>
@@ -482,8 +586,8 @@ const EmergencyActions = () => {
           
           <Button 
             className="w-full info-button bg-blue-600 hover:bg-blue-700 text-white"
-            onClick={() => handleEmergencyAction('Resources Request')}
-            disabled={isLoading === 'Resources Request'}
+            onClick={() => setPendingAction('Resources Request')}
+            disabled={isLoading !== null}
           >
             {isLoading === 'Resources Request' ? (
               <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Requesting Resources...</>
@@ -494,8 +598,8 @@ const EmergencyActions = () => {
           
           <Button 
             className="w-full success-button bg-green-600 hover:bg-green-700 text-white"
-            onClick={() => handleEmergencyAction('All Clear')}
-            disabled={isLoading === 'All Clear'}
+            onClick={() => setPendingAction('All Clear')}
+            disabled={isLoading !== null}
           >
             {isLoading === 'All Clear' ? (
               <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Signaling All Clear...</>
@@ -504,6 +608,89 @@ const EmergencyActions = () => {
             )}
           </Button>
           
+          {isLoading && dispatchProgress && (
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="flex justify-between items-center text-xs text-muted-foreground">
+                <span>
+                  {isLoading}: {dispatchProgress.completed} of {dispatchProgress.total} sent
+                  {dispatchProgress.failed > 0 && ` (${dispatchProgress.failed} failed)`}
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={cancelEmergencyAction}>
+                  <XCircle className="mr-1 h-3 w-3" /> Cancel
+                </Button>
+              </div>
+              <Progress
+                value={dispatchProgress.total > 0 ? (dispatchProgress.completed / dispatchProgress.total) * 100 : 0}
+                className="h-2"
+              />
+            </div>
+          )}
+          
+          <PendingApprovals onApprove={handleApproveDraft} onReject={handleRejectDraft} busy={isLoading !== null} />
+
+          <MessageTemplateEditor previewVariables={{ ...messageDetails, region: regionName }} />
+
+          <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+            <AlertDialogContent className="max-h-[85vh] overflow-y-auto">
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {exercise.active ? 'Exercise: send' : 'Send'} {pendingAction} to {regionName}?
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  Routing for a {severity}-severity {messageDetails.disasterType} in this region.
+                  {pendingAction && requiresSecondApprover(actionTypes[pendingAction]) &&
+                    ' This action needs a second authorised operator to approve it before anything is sent.'}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              {pendingAction && pendingPreview && (
+                <RecipientPreview
+                  actionType={actionTypes[pendingAction]}
+                  context={{ region: regionName, disasterType: messageDetails.disasterType, severity, area: targetArea ?? undefined }}
+                  preview={pendingPreview}
+                />
+              )}
+              {pendingPreview && <DispatchPreview preview={pendingPreview} />}
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                {pendingAction && requiresSecondApprover(actionTypes[pendingAction]) ? (
+                  <AlertDialogAction onClick={() => handleDraftAction(pendingAction)}>
+                    Submit for Approval
+                  </AlertDialogAction>
+                ) : (
+                  <AlertDialogAction onClick={() => pendingAction && handleEmergencyAction(pendingAction)}>
+                    Send Now
+                  </AlertDialogAction>
+                )}
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          
+          <AlertCorrectionDialog
+            alert={correctingAlert}
+            onOpenChange={(open) => !open && setCorrectingAlert(null)}
+            onSubmit={handleCorrection}
+            requiresApproval={correctingAlert !== null && requiresSecondApprover(correctingAlert.actionType)}
+          />
+
+          <AlertDialog open={cancellingAlert !== null} onOpenChange={(open) => !open && setCancellingAlert(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Cancel {cancellingAlert?.reportAction} for {cancellingAlert?.regionName}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Everyone it was sent to will get a CANCELLED message telling them to disregard it. This can't be undone.
+                  {cancellingAlert && requiresSecondApprover(cancellingAlert.actionType) &&
+                    ' Like the original, the cancellation needs a second operator to approve it before it is sent.'}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep Alert</AlertDialogCancel>
+                <AlertDialogAction onClick={handleCancelAlert}>
+                  {cancellingAlert && requiresSecondApprover(cancellingAlert.actionType) ? 'Submit for Approval' : 'Send Cancellation'}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+
           <Dialog>
             <DialogTrigger asChild>
               <Button 
@@ -781,22 +968,26 @@ const EmergencyActions = () => {
           </Dialog>
         </div>
         
-        {notificationHistory.length > 0 && (
+        {visibleHistory.length > 0 && (
           <div className="mt-6">
-            <h3 className="text-lg font-medium mb-3">Recent Notifications</h3>
+            <h3 className="text-lg font-medium mb-3">{exercise.active ? 'Exercise Notifications' : 'Recent Notifications'}</h3>
             <div className="space-y-3 max-h-60 overflow-y-auto pr-1">
-              {notificationHistory.slice(0, 5).map((notification) => (
+              {visibleHistory.slice(0, 5).map((notification) => (
                 <NotificationSummary
                   key={notification.id}
                   action={notification.action}
                   status={notification.status}
-                  recipients={notification.recipients}
+                  report={notification.report}
                   timestamp={notification.timestamp}
+                  onCorrect={isLoading ? undefined : setCorrectingAlert}
+                  onCancelAlert={isLoading ? undefined : setCancellingAlert}
                 />
               ))}
             </div>
           </div>
         )}
+
+        {exercise.active && exercise.target === 'localSink' && <ExerciseOutbox />}
       </CardContent>
     </Card>
   );
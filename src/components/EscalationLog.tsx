@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { ArrowUpCircle, CheckCheck, OctagonX, PlayCircle, XCircle } from 'lucide-react';
+import { useEscalations } from '@/hooks/use-escalations';
+import { EscalationEvent, cancelEscalations } from '@/services/escalationService';
+
+interface EscalationLogProps {
+  reportId: string;
+}
+
+const eventIcons: Record<EscalationEvent, JSX.Element> = {
+  'started': <PlayCircle className="h-3 w-3 text-muted-foreground" />,
+  'escalated': <ArrowUpCircle className="h-3 w-3 text-amber-600" />,
+  'delivery-failed': <XCircle className="h-3 w-3 text-red-600" />,
+  'acknowledged': <CheckCheck className="h-3 w-3 text-green-600" />,
+  'exhausted': <OctagonX className="h-3 w-3 text-red-600" />,
+  'cancelled': <XCircle className="h-3 w-3 text-muted-foreground" />,
+};
+
+const EscalationLog = ({ reportId }: EscalationLogProps) => {
+  const { entries, isActive } = useEscalations(reportId);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="flex justify-between items-center">
+        <p className="text-sm font-medium">Escalation</p>
+        {isActive && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => cancelEscalations(reportId)}>
+            Stop escalation
+          </Button>
+        )}
+      </div>
+      <ol className="space-y-1 text-xs">
+        {entries.map((entry) => (
+          <li key={entry.id} className="flex items-start gap-2">
+            <span className="mt-0.5">{eventIcons[entry.event]}</span>
+            <span>
+              <span className="text-muted-foreground">{new Date(entry.at).toLocaleTimeString()} · {entry.teamName}:</span> {entry.detail}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default EscalationLog;
@@ -0,0 +1,28 @@
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useExerciseMode } from '@/hooks/use-exercise-mode';
+import { EXERCISE_PREFIX, EXERCISE_TARGET_LABELS, setExerciseActive } from '@/services/exerciseMode';
+
+// Shown on every page while exercise mode is on, so nobody mistakes the drill dashboard for live operations
+const ExerciseBanner = () => {
+  const exercise = useExerciseMode();
+  if (!exercise.active) return null;
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-50 flex flex-wrap items-center justify-center gap-3 border-b-4 border-amber-600 bg-amber-400 bg-[repeating-linear-gradient(45deg,transparent,transparent_12px,rgba(0,0,0,0.08)_12px,rgba(0,0,0,0.08)_24px)] px-4 py-2 text-sm font-semibold text-amber-950"
+    >
+      <ShieldAlert className="h-5 w-5" />
+      <span>{EXERCISE_PREFIX}</span>
+      <span className="font-normal">
+        Exercise mode: no real alerts are sent. Messages go to: {EXERCISE_TARGET_LABELS[exercise.target]}.
+      </span>
+      <Button size="sm" variant="outline" className="h-7 border-amber-700 bg-amber-100 text-xs" onClick={() => setExerciseActive(false)}>
+        End Exercise
+      </Button>
+    </div>
+  );
+};
+
+export default ExerciseBanner;
@@ -0,0 +1,44 @@
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useExerciseMode } from '@/hooks/use-exercise-mode';
+import { EXERCISE_PREFIX, EXERCISE_TARGET_LABELS, setExerciseActive } from '@/services/exerciseMode';
+
+const ExerciseModeToggle = () => {
+  const exercise = useExerciseMode();
+
+  if (exercise.active) {
+    return (
+      <Button variant="outline" className="border-amber-500 text-amber-700" onClick={() => setExerciseActive(false)}>
+        <ShieldAlert className="mr-2 h-4 w-4" />
+        End Exercise
+      </Button>
+    );
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline">
+          <ShieldAlert className="mr-2 h-4 w-4" />
+          Start Exercise
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Start an exercise?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Until you end it, every action is a drill: messages start with "{EXERCISE_PREFIX}" and go to{' '}
+            {EXERCISE_TARGET_LABELS[exercise.target].toLowerCase()} instead of real recipients. Exercise notifications are kept apart from live ones.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => setExerciseActive(true)}>Start Exercise</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ExerciseModeToggle;
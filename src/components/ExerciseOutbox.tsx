@@ -0,0 +1,45 @@
+import { Inbox } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useSinkMessages } from '@/hooks/use-exercise-mode';
+import { clearSinkMessages } from '@/services/exerciseMode';
+
+const SHOWN_MESSAGES = 20;
+
+// What the local sink captured during the exercise, newest first
+const ExerciseOutbox = () => {
+  const messages = useSinkMessages();
+
+  return (
+    <div className="mt-6">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="flex items-center text-lg font-medium">
+          <Inbox className="mr-2 h-4 w-4" /> Exercise Outbox
+        </h3>
+        {messages.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={clearSinkMessages}>Clear</Button>
+        )}
+      </div>
+      {messages.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Messages sent during the exercise are captured here instead of being delivered.</p>
+      ) : (
+        <ul className="max-h-60 space-y-2 overflow-y-auto pr-1 text-xs">
+          {messages.slice(0, SHOWN_MESSAGES).map((message) => (
+            <li key={message.id} className="rounded-md border border-amber-300 bg-amber-50 p-2">
+              <div className="mb-1 flex items-center gap-1">
+                <Badge variant="outline" className="bg-white text-[10px] uppercase">{message.channel}</Badge>
+                <span className="font-medium">{message.recipient}</span>
+                <span className="text-muted-foreground">{message.address}</span>
+                <span className="ml-auto text-muted-foreground">{new Date(message.capturedAt).toLocaleTimeString()}</span>
+              </div>
+              {message.channel !== 'sms' && <p className="font-medium">{message.subject}</p>}
+              <p className="whitespace-pre-wrap">{message.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseOutbox;
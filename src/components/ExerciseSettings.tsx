@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useExerciseMode } from '@/hooks/use-exercise-mode';
+import { useToast } from '@/hooks/use-toast';
+import { EXERCISE_TARGET_LABELS, ExerciseTarget, updateExerciseSettings } from '@/services/exerciseMode';
+import { normalizePhoneNumber } from '@/services/phoneNumbers';
+
+const emptyParticipant = { name: '', phoneNumber: '', email: '' };
+
+// Where exercise traffic goes, and who takes part when drills reach real phones
+const ExerciseSettings = () => {
+  const exercise = useExerciseMode();
+  const { toast } = useToast();
+  const [participant, setParticipant] = useState(emptyParticipant);
+
+  const addParticipant = () => {
+    const name = participant.name.trim();
+    const phoneNumber = normalizePhoneNumber(participant.phoneNumber);
+    if (!name || !phoneNumber) {
+      toast({
+        title: "Participant not added",
+        description: "Enter a name and a phone number with country code.",
+        variant: "destructive",
+      });
+      return;
+    }
+    updateExerciseSettings({
+      drillRecipients: [...exercise.drillRecipients, { name, role: 'Drill participant', phoneNumber, email: participant.email.trim() }],
+    });
+    setParticipant(emptyParticipant);
+  };
+
+  const removeParticipant = (index: number) => {
+    updateExerciseSettings({ drillRecipients: exercise.drillRecipients.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Exercise Mode</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label className="text-sm">Exercise messages go to</Label>
+          <Select value={exercise.target} onValueChange={(target: ExerciseTarget) => updateExerciseSettings({ target })}>
+            <SelectTrigger className="w-[320px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EXERCISE_TARGET_LABELS) as ExerciseTarget[]).map((target) => (
+                <SelectItem key={target} value={target}>{EXERCISE_TARGET_LABELS[target]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Drill participants</p>
+          {exercise.drillRecipients.length === 0 && (
+            <p className="text-xs text-muted-foreground">Nobody yet; drills sent to participants will reach no one.</p>
+          )}
+          {exercise.drillRecipients.map((contact, index) => (
+            <div key={`${contact.phoneNumber}-${index}`} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+              <span>
+                <span className="font-medium">{contact.name}</span>{' '}
+                <span className="text-muted-foreground">{[contact.phoneNumber, contact.email].filter(Boolean).join(' · ')}</span>
+              </span>
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="Remove participant" onClick={() => removeParticipant(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <Input
+              value={participant.name}
+              onChange={(e) => setParticipant({ ...participant, name: e.target.value })}
+              placeholder="Name"
+              className="h-8 w-40 text-sm"
+            />
+            <Input
+              value={participant.phoneNumber}
+              onChange={(e) => setParticipant({ ...participant, phoneNumber: e.target.value })}
+              placeholder="+1 555 123 4567"
+              className="h-8 w-40 text-sm"
+            />
+            <Input
+              type="email"
+              value={participant.email}
+              onChange={(e) => setParticipant({ ...participant, email: e.target.value })}
+              placeholder="Email (optional)"
+              className="h-8 w-52 text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={addParticipant}>
+              <Plus className="mr-1 h-4 w-4" /> Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExerciseSettings;
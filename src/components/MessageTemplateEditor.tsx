@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText } from 'lucide-react';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { useToast } from '@/hooks/use-toast';
+import { useMessageTemplates } from '@/hooks/use-message-templates';
+import { acknowledgementInstructions } from '@/services/acknowledgementService';
+import { EMERGENCY_ACTION_LABELS, EmergencyActionType, PREVIEW_ACK_TOKEN } from '@/services/emergencyCommunicationService';
+import {
+  DEFAULT_LOCALE,
+  DEFAULT_TEMPLATE_PACKS,
+  LOCALE_LABELS,
+  Locale,
+  MessageTemplate,
+  TEMPLATE_VARIABLES,
+  TemplateField,
+  TemplateVariables,
+  renderMessage,
+  updateTemplate,
+} from '@/services/messageTemplates';
+import { composeSms, setSmsSegmentBudget } from '@/services/smsSegments';
+
+interface MessageTemplateEditorProps {
+  previewVariables: Partial<TemplateVariables>;
+}
+
+const fields: { field: TemplateField; label: string; multiline: boolean }[] = [
+  { field: 'sms', label: 'SMS body (short)', multiline: true },
+  { field: 'emailSubject', label: 'Email subject', multiline: false },
+  { field: 'email', label: 'Email body (long)', multiline: true },
+  { field: 'pushTitle', label: 'Push title', multiline: false },
+  { field: 'push', label: 'Push body', multiline: true },
+];
+
+const MessageTemplateEditor = ({ previewVariables }: MessageTemplateEditorProps) => {
+  const templates = useMessageTemplates();
+  const { smsSegmentBudget } = useEmergencyConfig();
+  const { toast } = useToast();
+  const [actionType, setActionType] = useState<EmergencyActionType>('evacuation');
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const translation = templates[locale][actionType];
+  // Untranslated actions start from the English wording so the translator has something to work from
+  const [draft, setDraft] = useState<MessageTemplate>(translation ?? templates[DEFAULT_LOCALE][actionType]);
+
+  useEffect(() => {
+    setDraft(templates[locale][actionType] ?? templates[DEFAULT_LOCALE][actionType]);
+  }, [actionType, locale, templates]);
+
+  const preview = renderMessage(actionType, previewVariables, locale, draft);
+  const defaultTemplate = DEFAULT_TEMPLATE_PACKS[locale].templates[actionType];
+  // As contacts receive it, with the acknowledgement instructions appended
+  const sms = composeSms(preview.sms, smsSegmentBudget, {
+    full: acknowledgementInstructions(PREVIEW_ACK_TOKEN, locale),
+    short: acknowledgementInstructions(PREVIEW_ACK_TOKEN, locale, false),
+  });
+  const [budget, setBudget] = useState(String(smsSegmentBudget));
+
+  useEffect(() => {
+    setBudget(String(smsSegmentBudget));
+  }, [smsSegmentBudget]);
+
+  const commitBudget = () => {
+    try {
+      setSmsSegmentBudget(Number(budget));
+    } catch (error) {
+      setBudget(String(smsSegmentBudget));
+      toast({
+        title: "Budget not changed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = () => {
+    updateTemplate(locale, actionType, draft);
+    toast({
+      title: "Template saved",
+      description: `${EMERGENCY_ACTION_LABELS[actionType]} messages in ${LOCALE_LABELS[locale]} will use the new wording.`,
+    });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <FileText className="mr-2 h-4 w-4" /> Edit Message Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[800px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Message Templates</DialogTitle>
+          <DialogDescription>
+            Tailor the wording sent for each action, channel and language. Placeholders are filled in when the action is sent,
+            and recipients whose language has no translation receive the English message.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-2">
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={actionType} onValueChange={(value) => setActionType(value as EmergencyActionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EMERGENCY_ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LOCALE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!translation && (
+              <p className="text-xs text-muted-foreground">
+                No {LOCALE_LABELS[locale]} translation yet; these recipients currently receive the English message.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-1">
+              {TEMPLATE_VARIABLES.map((name) => (
+                <Badge key={name} variant="secondary" className="text-[10px] font-mono">{`{{${name}}}`}</Badge>
+              ))}
+            </div>
+
+            {fields.map(({ field, label, multiline }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`template-${field}`} className="text-xs">{label}</Label>
+                {multiline ? (
+                  <Textarea
+                    id={`template-${field}`}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    className="text-xs min-h-[60px]"
+                  />
+                ) : (
+                  <Input
+                    id={`template-${field}`}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                    className="text-xs"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium">Preview</h4>
+            <div className="rounded-md border p-3 space-y-1">
+              <div className="flex flex-wrap items-center gap-1">
+                <p className="text-xs font-medium text-muted-foreground">SMS</p>
+                <Badge variant={sms.overBudget ? 'destructive' : 'outline'} className="text-[10px]">
+                  {sms.count.segments} {sms.count.segments === 1 ? 'segment' : 'segments'} · {sms.count.encoding} · {sms.count.units} chars
+                </Badge>
+                {sms.shortForm && <Badge variant="secondary" className="text-[10px]">Short form</Badge>}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{sms.body}</p>
+              {sms.shortForm && (
+                <p className="text-xs text-muted-foreground">
+                  The full text is over the budget, so SMS recipients get only its first sentence. Email keeps the full text.
+                </p>
+              )}
+              {sms.overBudget && (
+                <p className="text-xs text-red-600">
+                  Still over the budget of {smsSegmentBudget} {smsSegmentBudget === 1 ? 'segment' : 'segments'}; shorten the first sentence.
+                </p>
+              )}
+              <div className="flex items-center gap-2 pt-1">
+                <Label htmlFor="sms-segment-budget" className="text-xs font-normal">SMS budget (segments)</Label>
+                <Input
+                  id="sms-segment-budget"
+                  type="number"
+                  min={1}
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  onBlur={commitBudget}
+                  onKeyDown={(e) => e.key === 'Enter' && commitBudget()}
+                  className="h-7 w-16 text-xs"
+                />
+              </div>
+            </div>
+            <div className="rounded-md border p-3 space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Email</p>
+              <p className="text-sm font-medium">{preview.emailSubject}</p>
+              <p className="text-sm whitespace-pre-wrap">{preview.email}</p>
+            </div>
+            <div className="rounded-md border p-3 space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Push notification</p>
+              <p className="text-sm font-medium">{preview.pushTitle}</p>
+              <p className="text-sm whitespace-pre-wrap">{preview.push}</p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDraft(defaultTemplate ?? DEFAULT_TEMPLATE_PACKS.en.templates[actionType])}>
+            Reset to default
+          </Button>
+          <Button onClick={handleSave}>Save Template</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageTemplateEditor;
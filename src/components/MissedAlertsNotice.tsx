@@ -0,0 +1,27 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useScheduledAlerts } from '@/hooks/use-scheduled-alerts';
+
+// Scheduled one-off alerts found too late to send on their own wait for an operator; this keeps them from going unnoticed
+const MissedAlertsNotice = () => {
+  const missed = useScheduledAlerts().filter((entry) => entry.status === 'missed');
+  if (missed.length === 0) return null;
+
+  return (
+    <div role="alert" className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-red-300 bg-red-50 p-4 text-red-800">
+      <div className="flex items-center gap-2 text-sm">
+        <AlertTriangle className="h-5 w-5 shrink-0" />
+        <span>
+          <span className="font-semibold">{missed.length} scheduled {missed.length === 1 ? 'alert was' : 'alerts were'} missed</span>
+          {' '}({missed.map((entry) => entry.regionName).join(', ')}) and won't go out unless you send {missed.length === 1 ? 'it' : 'them'}.
+        </span>
+      </div>
+      <Button size="sm" variant="outline" asChild className="border-red-300 bg-white">
+        <Link to="/schedule">Review</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default MissedAlertsNotice;
@@ -1,20 +1,73 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CheckCircle, XCircle, Clock, AlertTriangle, Ban, Download, Inbox, Loader2, Pencil, RotateCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useDeadLetters } from '@/hooks/use-dead-letters';
+import { useCapAlerts } from '@/hooks/use-cap-alerts';
+import { useIssuedAlert } from '@/hooks/use-issued-alerts';
+import AcknowledgementStatus from './AcknowledgementStatus';
+import EscalationLog from './EscalationLog';
+import { DeliveryReport, summarizeDeliveryReport } from '@/services/deliveryReport';
+import { redriveDeadLetter } from '@/services/dispatchEngine';
+import { PublishedCapAlert } from '@/services/capAlerts';
+import { IssuedAlert } from '@/services/alertHistory';
 
 interface NotificationSummaryProps {
   action: string;
-  status: 'success' | 'error' | 'pending';
-  recipients: {
-    type: string;
-    count: number;
-  }[];
+  status: 'success' | 'partial' | 'error' | 'cancelled' | 'pending';
+  report: DeliveryReport | null;
   timestamp: string;
+  onCorrect?: (alert: IssuedAlert) => void;
+  onCancelAlert?: (alert: IssuedAlert) => void;
 }
 
-const NotificationSummary = ({ action, status, recipients, timestamp }: NotificationSummaryProps) => {
+const versionLabels: Record<IssuedAlert['msgType'], string> = {
+  Alert: 'Original',
+  Update: 'Correction',
+  Cancel: 'Cancellation',
+};
+
+const downloadCapAlert = ({ alert, xml }: PublishedCapAlert) => {
+  const url = URL.createObjectURL(new Blob([xml], { type: 'application/cap+xml' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${alert.identifier}.xml`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const NotificationSummary = ({ action, status, report, timestamp, onCorrect, onCancelAlert }: NotificationSummaryProps) => {
+  const summary = report ? summarizeDeliveryReport(report) : null;
+  const failures = report ? report.deliveries.filter(delivery => delivery.status === 'failed') : [];
+  const fallbackCount = report
+    ? report.deliveries.filter(delivery => delivery.status === 'sent' && delivery.fallbackChannels?.length).length
+    : 0;
+  const deadLetters = useDeadLetters(report?.id);
+  const capAlerts = useCapAlerts(report?.id);
+  const issued = useIssuedAlert(report?.id);
+  const latestVersion = issued?.chain[issued.chain.length - 1];
+  const [redriving, setRedriving] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const handleRedrive = async (ids: string[]) => {
+    setRedriving(prev => [...prev, ...ids]);
+    
+    const results = await Promise.all(ids.map(id => redriveDeadLetter(id)));
+    const delivered = results.filter(result => result.status === 'sent').length;
+    
+    setRedriving(prev => prev.filter(id => !ids.includes(id)));
+    toast({
+      title: delivered === results.length ? "Messages re-driven" : "Re-drive incomplete",
+      description: `${delivered} of ${results.length} messages delivered.`,
+      variant: delivered === results.length ? "default" : "destructive",
+    });
+  };
+
   return (
     <Card className="mb-4 overflow-hidden">
       <CardHeader className="pb-2 pt-4 px-4">
@@ -25,11 +78,21 @@ const NotificationSummary = ({ action, status, recipients, timestamp }: Notifica
               <CheckCircle className="mr-1 h-3 w-3" /> Sent
             </Badge>
           )}
+          {status === 'partial' && (
+            <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+              <AlertTriangle className="mr-1 h-3 w-3" /> Partially Sent
+            </Badge>
+          )}
           {status === 'error' && (
             <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
               <XCircle className="mr-1 h-3 w-3" /> Failed
             </Badge>
           )}
+          {status === 'cancelled' && (
+            <Badge variant="outline" className="bg-slate-50 text-slate-700 border-slate-200">
+              <Ban className="mr-1 h-3 w-3" /> Cancelled
+            </Badge>
+          )}
           {status === 'pending' && (
             <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
               <Clock className="mr-1 h-3 w-3" /> Sending...
@@ -37,18 +100,144 @@ const NotificationSummary = ({ action, status, recipients, timestamp }: Notifica
           )}
         </div>
         <CardDescription className="text-xs">{timestamp}</CardDescription>
+        {issued && issued.chain.length > 1 && (
+          <div className="flex flex-wrap items-center gap-1 pt-1 text-xs">
+            {issued.chain.map((version, index) => (
+              <React.Fragment key={version.reportId}>
+                {index > 0 && <span className="text-muted-foreground">→</span>}
+                <Badge
+                  variant={version.reportId === issued.alert.reportId ? 'default' : 'outline'}
+                  className="text-[10px]"
+                  title={new Date(version.issuedAt).toLocaleString()}
+                >
+                  v{version.version} {versionLabels[version.msgType]}
+                </Badge>
+              </React.Fragment>
+            ))}
+            {latestVersion && latestVersion.reportId !== issued.alert.reportId && (
+              <span className="text-muted-foreground">
+                {latestVersion.msgType === 'Cancel' ? 'Cancelled' : 'Superseded'} by v{latestVersion.version}
+              </span>
+            )}
+          </div>
+        )}
       </CardHeader>
       <CardContent className="p-4 pt-0">
-        <div className="space-y-2">
-          <p className="text-sm font-medium">Recipients:</p>
-          <div className="flex flex-wrap gap-2">
-            {recipients.map((recipient, index) => (
-              <Badge key={index} variant="secondary" className="text-xs">
-                {recipient.type}: {recipient.count}
-              </Badge>
+        {summary ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Recipients: {summary.sent} sent, {summary.failed} failed
+              {summary.cancelled > 0 && `, ${summary.cancelled} cancelled`}
+            </p>
+            {fallbackCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {fallbackCount} reached via a fallback channel
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {summary.groups.map((group) => (
+                <Badge key={group.group} variant="secondary" className="text-xs">
+                  {group.group}: {group.sent} sent
+                  {group.failed > 0 && `, ${group.failed} failed`}
+                  {group.cancelled > 0 && `, ${group.cancelled} cancelled`}
+                </Badge>
+              ))}
+            </div>
+            {failures.length > 0 && (
+              <ul className="text-xs text-red-700 space-y-1">
+                {failures.map((failure, index) => (
+                  <li key={index}>
+                    {failure.recipient} ({[...(failure.fallbackChannels ?? []), failure.channel].join(' → ')}): {failure.error}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {report && <AcknowledgementStatus reportId={report.id} />}
+            {report && <EscalationLog reportId={report.id} />}
+            {issued?.canAmend && status !== 'pending' && (onCorrect || onCancelAlert) && (
+              <div className="flex gap-2">
+                {onCorrect && (
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onCorrect(issued.alert)}>
+                    <Pencil className="mr-1 h-3 w-3" /> Send Correction
+                  </Button>
+                )}
+                {onCancelAlert && (
+                  <Button variant="outline" size="sm" className="h-7 text-xs text-red-700" onClick={() => onCancelAlert(issued.alert)}>
+                    <Ban className="mr-1 h-3 w-3" /> Cancel Alert
+                  </Button>
+                )}
+              </div>
+            )}
+            {capAlerts.map((capAlert) => (
+              <Button
+                key={capAlert.alert.identifier}
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs mr-2"
+                title={capAlert.alert.identifier}
+                onClick={() => downloadCapAlert(capAlert)}
+              >
+                <Download className="mr-1 h-3 w-3" /> CAP {capAlert.alert.msgType}
+              </Button>
             ))}
+            {deadLetters.length > 0 && (
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="h-7 text-xs">
+                    <Inbox className="mr-1 h-3 w-3" /> Dead-letter queue ({deadLetters.length})
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="sm:max-w-[600px]">
+                  <DialogHeader>
+                    <DialogTitle>Dead-letter queue: {action}</DialogTitle>
+                    <DialogDescription>
+                      These messages still failed after all retry attempts. Re-drive them once the underlying issue is resolved.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <ScrollArea className="max-h-[50vh] pr-4">
+                    <div className="space-y-2">
+                      {deadLetters.map((entry) => (
+                        <div key={entry.id} className="flex justify-between items-start gap-2 rounded-md border p-2 text-xs">
+                          <div className="space-y-1">
+                            <p className="font-medium">
+                              {entry.message.recipient} <Badge variant="outline" className="ml-1 text-[10px]">{entry.message.channel}</Badge>
+                            </p>
+                            <p className="text-muted-foreground">{entry.message.address}</p>
+                            <p className="text-red-700">{entry.lastError}</p>
+                            <p className="text-muted-foreground">
+                              {entry.attempts} attempts, last failed {new Date(entry.failedAt).toLocaleString()}
+                            </p>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            disabled={redriving.includes(entry.id)}
+                            onClick={() => handleRedrive([entry.id])}
+                          >
+                            {redriving.includes(entry.id) ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <><RotateCw className="mr-1 h-3 w-3" /> Re-drive</>
+                            )}
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                  <Button
+                    onClick={() => handleRedrive(deadLetters.map(entry => entry.id).filter(id => !redriving.includes(id)))}
+                    disabled={deadLetters.every(entry => redriving.includes(entry.id))}
+                  >
+                    <RotateCw className="mr-2 h-4 w-4" /> Re-drive all
+                  </Button>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
-        </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Resolving recipients...</p>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,34 @@
+import { UserCheck } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrentOperator } from '@/hooks/use-action-drafts';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { setCurrentOperator } from '@/services/actionAuthorization';
+
+// Who is at the console; drafts and approvals are recorded against this operator. Not verified: there is no sign-in yet.
+const OperatorSelect = () => {
+  const { authorization } = useEmergencyConfig();
+  const operator = useCurrentOperator();
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <UserCheck className="h-4 w-4 text-muted-foreground" />
+      <span className="text-muted-foreground">Operator</span>
+      <Select value={operator?.id ?? ''} onValueChange={setCurrentOperator}>
+        <SelectTrigger
+          className="h-9 w-[180px]"
+          aria-label="Current operator"
+          title="Not verified: anyone at this console can pick any operator until sign-in is added"
+        >
+          <SelectValue placeholder={authorization.operators.length ? 'Choose operator' : 'No operators'} />
+        </SelectTrigger>
+        <SelectContent>
+          {authorization.operators.map((candidate) => (
+            <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default OperatorSelect;
@@ -0,0 +1,78 @@
+import { CheckCircle, Clock, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useActionDrafts, useCurrentOperator } from '@/hooks/use-action-drafts';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { ActionDraft, approvalBlocker, getOperator } from '@/services/actionAuthorization';
+import { EMERGENCY_ACTION_LABELS } from '@/services/emergencyCommunicationService';
+
+interface PendingApprovalsProps {
+  onApprove: (draft: ActionDraft) => void;
+  onReject: (draft: ActionDraft) => void;
+  busy?: boolean; // Another broadcast is running, so approving would have to wait
+}
+
+const RECENT_DECISIONS = 3;
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const draftLabel = ({ actionType, amends }: ActionDraft) =>
+  `${EMERGENCY_ACTION_LABELS[actionType]}${amends ? (amends.msgType === 'Cancel' ? ' Cancellation' : ' Correction') : ''}`;
+
+// Drafts waiting for a second operator, plus the last few decided ones
+const PendingApprovals = ({ onApprove, onReject, busy = false }: PendingApprovalsProps) => {
+  const drafts = useActionDrafts();
+  const operator = useCurrentOperator();
+  const config = useEmergencyConfig();
+  const pending = drafts.filter((draft) => draft.status === 'pending');
+  const decided = drafts.filter((draft) => draft.status !== 'pending').slice(0, RECENT_DECISIONS);
+  const operatorName = (id?: string) => getOperator(id ?? null, config)?.name ?? 'Unknown operator';
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Awaiting Second Approval</h3>
+      <p className="text-xs text-muted-foreground">
+        Operators pick themselves from a list rather than signing in, so anyone at this console can approve as another operator.
+        Treat the two-person rule as a procedure, not a security control, until sign-in is added.
+      </p>
+      {pending.length === 0 && <p className="text-xs text-muted-foreground">No drafts pending.</p>}
+      {pending.map((draft) => {
+        const blocker = approvalBlocker(draft, operator?.id ?? null, config);
+        return (
+          <div key={draft.id} className="rounded-md border border-amber-300 bg-amber-50 p-2 text-xs space-y-1">
+            <div className="flex justify-between items-center gap-2">
+              <span className="font-medium text-sm">
+                {draftLabel(draft)}: {draft.request.regionName}
+              </span>
+              <Badge variant="outline" className="text-[10px] bg-white">
+                <Clock className="mr-1 h-3 w-3" /> Expires {formatTime(draft.expiresAt)}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground">
+              Drafted by {operatorName(draft.draftedBy)} at {formatTime(draft.draftedAt)}; waiting for another authorised operator.
+            </p>
+            <div className="flex items-center gap-2">
+              <Button size="sm" className="h-7 text-xs" disabled={blocker !== null || busy} title={blocker ?? undefined} onClick={() => onApprove(draft)}>
+                <CheckCircle className="mr-1 h-3 w-3" /> Approve &amp; Send
+              </Button>
+              <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onReject(draft)}>
+                <XCircle className="mr-1 h-3 w-3" /> {draft.draftedBy === operator?.id ? 'Withdraw' : 'Reject'}
+              </Button>
+              {blocker && <span className="text-muted-foreground">{blocker}</span>}
+            </div>
+          </div>
+        );
+      })}
+      {decided.map((draft) => (
+        <p key={draft.id} className="text-xs text-muted-foreground">
+          {draftLabel(draft)} for {draft.request.regionName} by {operatorName(draft.draftedBy)}:{' '}
+          {draft.status === 'expired' ? 'expired without approval' : `${draft.status} by ${operatorName(draft.decidedBy)}`}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default PendingApprovals;
@@ -0,0 +1,102 @@
+import { Badge } from '@/components/ui/badge';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { ActionPreview, EmergencyActionType, REGION_DEVICES_GROUP } from '@/services/emergencyCommunicationService';
+import { RoutingContext, planRouting, resolveRecipients } from '@/services/routingRules';
+import { getUnlocatedRegionDevices } from '@/services/deviceRegistry';
+
+interface RecipientPreviewProps {
+  actionType: EmergencyActionType;
+  context: RoutingContext;
+  preview: ActionPreview; // The deduplicated plan the counts come from
+}
+
+// Explains who an action will reach and which routing rules put them there
+const RecipientPreview = ({ actionType, context, preview }: RecipientPreviewProps) => {
+  const config = useEmergencyConfig();
+  const plan = planRouting(actionType, context, config);
+  const { teams, tagged, regionDevices } = resolveRecipients(plan.recipients, config, context);
+  // Each address is messaged once per action, so people routed twice or sharing a number count once
+  const deviceCount = preview.jobs.filter((job) => job.steps[0].group === REGION_DEVICES_GROUP).length;
+  const peopleCount = preview.jobs.length - deviceCount;
+  const routedCount = teams.reduce((count, team) => count + 1 + team.members.length, 0) + tagged.length + regionDevices.length;
+  const skippedCount = routedCount - preview.jobs.length;
+  const drillOnly = preview.exercise && config.exercise.target === 'drillRecipients';
+  const teamName = (teamId: string) => config.teams[teamId]?.teamName ?? teamId;
+  const unlocatedCount = context.area && plan.recipients.regionDevices ? getUnlocatedRegionDevices(config.devices, context.region).length : 0;
+
+  return (
+    <div className="space-y-3 text-sm">
+      {drillOnly ? (
+        <p className="font-medium">
+          Exercise: {peopleCount} drill {peopleCount === 1 ? 'participant' : 'participants'} will be notified. The routed recipients below are not contacted.
+        </p>
+      ) : preview.exercise ? (
+        <p className="font-medium">
+          Exercise: nobody will be contacted. The {preview.jobs.length} {preview.jobs.length === 1 ? 'message' : 'messages'} for the routed recipients below go to the local exercise outbox.
+        </p>
+      ) : (
+        <p className="font-medium">
+          {peopleCount} {peopleCount === 1 ? 'person' : 'people'} and {deviceCount} region {deviceCount === 1 ? 'device' : 'devices'} will be notified.
+        </p>
+      )}
+      {!drillOnly && skippedCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {skippedCount} routed {skippedCount === 1 ? 'entry is' : 'entries are'} skipped: already reached at the same address by this action, or no address on file.
+        </p>
+      )}
+      {context.area && (
+        <p className="text-xs text-muted-foreground">
+          Region devices are limited to those located inside the selected area ({context.area.name}).
+          {unlocatedCount > 0 && ` ${unlocatedCount} ${unlocatedCount === 1 ? 'device' : 'devices'} registered to ${context.region} ${unlocatedCount === 1 ? 'has' : 'have'} no location and ${unlocatedCount === 1 ? 'is' : 'are'} left out.`}
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {plan.sources.map((source) => (
+          <li key={source.label} className="rounded-md border p-2">
+            <p className="text-xs font-medium text-muted-foreground mb-1">
+              {source.rule ? `Rule: ${source.rule.name}` : 'Always notified for this action'}
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {source.recipients.teams.map((teamId) => (
+                <Badge key={teamId} variant="secondary" className="text-[10px]">{teamName(teamId)}</Badge>
+              ))}
+              {source.recipients.tags.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-[10px]">Role: {tag}</Badge>
+              ))}
+              {source.recipients.regionDevices && (
+                <Badge variant="outline" className="text-[10px]">Region devices</Badge>
+              )}
+              {source.recipients.teams.length === 0 && source.recipients.tags.length === 0 && !source.recipients.regionDevices && (
+                <span className="text-xs text-muted-foreground">Nobody</span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <ul className="space-y-1 text-xs">
+        {teams.map((team) => (
+          <li key={team.teamName}>
+            <span className="font-medium">{team.teamName}:</span>{' '}
+            {[team.teamHead, ...team.members].map((contact) => contact.name).join(', ')}
+          </li>
+        ))}
+        {tagged.length > 0 && (
+          <li>
+            <span className="font-medium">By role:</span>{' '}
+            {tagged.map(({ contact, tag }) => `${contact.name} (${tag})`).join(', ')}
+          </li>
+        )}
+        {regionDevices.length > 0 && (
+          <li>
+            <span className="font-medium">Region devices:</span>{' '}
+            {regionDevices.map((device) => device.owner).join(', ')}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default RecipientPreview;
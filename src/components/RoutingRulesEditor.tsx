@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { useToast } from '@/hooks/use-toast';
+import { EMERGENCY_ACTION_LABELS, EmergencyActionType } from '@/services/emergencyCommunicationService';
+import { parseTags } from '@/services/contactDirectory';
+import {
+  DISASTER_TYPES,
+  RoutingRule,
+  RoutingRuleValues,
+  SEVERITIES,
+  addRoutingRule,
+  removeRoutingRule,
+  updateRoutingRule,
+} from '@/services/routingRules';
+
+// Regions and tags are edited as comma-separated text and split on save
+const ruleFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  actionTypes: z.array(z.enum(['evacuation', 'alert', 'resources', 'allClear'])),
+  disasterTypes: z.array(z.string()),
+  minSeverity: z.enum(['any', 'low', 'medium', 'high', 'critical']),
+  regions: z.string(),
+  teams: z.array(z.string()),
+  tags: z.string(),
+  regionDevices: z.boolean(),
+}).refine(
+  (values) => values.teams.length > 0 || parseTags(values.tags).length > 0 || values.regionDevices,
+  { message: 'Notify at least one team, role tag or the region devices', path: ['teams'] },
+);
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const ANY_SEVERITY = 'any';
+
+const emptyRule: RuleFormValues = {
+  name: '',
+  actionTypes: [],
+  disasterTypes: [],
+  minSeverity: ANY_SEVERITY,
+  regions: '',
+  teams: [],
+  tags: '',
+  regionDevices: false,
+};
+
+const toFormValues = (rule: RoutingRule): RuleFormValues => ({
+  name: rule.name,
+  actionTypes: rule.actionTypes,
+  disasterTypes: rule.disasterTypes,
+  minSeverity: rule.minSeverity ?? ANY_SEVERITY,
+  regions: rule.regions.join(', '),
+  teams: rule.recipients.teams,
+  tags: rule.recipients.tags.join(', '),
+  regionDevices: rule.recipients.regionDevices,
+});
+
+const toRuleValues = (values: RuleFormValues, enabled: boolean): RoutingRuleValues => ({
+  name: values.name,
+  enabled,
+  actionTypes: values.actionTypes,
+  disasterTypes: values.disasterTypes,
+  minSeverity: values.minSeverity === ANY_SEVERITY ? undefined : values.minSeverity,
+  regions: values.regions.split(',').map((region) => region.trim()).filter(Boolean),
+  recipients: { teams: values.teams, tags: parseTags(values.tags), regionDevices: values.regionDevices },
+});
+
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter((existing) => existing !== value);
+
+const describeConditions = (rule: RoutingRule) => [
+  rule.actionTypes.length > 0 ? rule.actionTypes.map((type) => EMERGENCY_ACTION_LABELS[type]).join(' / ') : 'Any action',
+  rule.disasterTypes.length > 0 ? rule.disasterTypes.join(' / ') : 'any disaster',
+  rule.minSeverity ? `${rule.minSeverity}+ severity` : 'any severity',
+  rule.regions.length > 0 ? `in ${rule.regions.join(', ')}` : 'anywhere',
+].join(', ');
+
+const RoutingRulesEditor = () => {
+  const config = useEmergencyConfig();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<RoutingRule | 'new' | null>(null);
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyRule,
+  });
+
+  useEffect(() => {
+    if (editing) form.reset(editing === 'new' ? emptyRule : toFormValues(editing));
+  }, [editing, form]);
+
+  const applyChange = (change: () => void) => {
+    try {
+      change();
+    } catch (error) {
+      toast({
+        title: "Rule not saved",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = (values: RuleFormValues) => {
+    if (editing === 'new') {
+      applyChange(() => addRoutingRule(toRuleValues(values, true)));
+    } else if (editing) {
+      applyChange(() => updateRoutingRule(editing.id, toRuleValues(values, editing.enabled)));
+    }
+    setEditing(null);
+  };
+
+  const teamName = (teamId: string) => config.teams[teamId]?.teamName ?? teamId;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Routing Rules</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+          <Plus className="mr-2 h-4 w-4" /> Add Rule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-3">
+          Matching rules add recipients on top of each action's defaults, based on the disaster type, severity and region.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>On</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead>Also notifies</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {config.routingRules.map((rule) => (
+              <TableRow key={rule.id}>
+                <TableCell>
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) => applyChange(() => updateRoutingRule(rule.id, { ...rule, enabled }))}
+                  />
+                </TableCell>
+                <TableCell className="font-medium">{rule.name}</TableCell>
+                <TableCell className="text-xs">{describeConditions(rule)}</TableCell>
+                <TableCell className="space-x-1">
+                  {rule.recipients.teams.map((teamId) => (
+                    <Badge key={teamId} variant="secondary" className="text-[10px]">{teamName(teamId)}</Badge>
+                  ))}
+                  {rule.recipients.tags.map((tag) => (
+                    <Badge key={tag} variant="outline" className="text-[10px]">{tag}</Badge>
+                  ))}
+                  {rule.recipients.regionDevices && (
+                    <Badge variant="outline" className="text-[10px]">Region devices</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="icon" title="Edit rule" onClick={() => setEditing(rule)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Delete rule" onClick={() => removeRoutingRule(rule.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {config.routingRules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-sm text-muted-foreground">
+                  No rules; every action notifies only its defaults.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Routing Rule' : 'Edit Routing Rule'}</DialogTitle>
+            <DialogDescription>Leave a condition empty to match anything.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 py-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Critical floods page hazmat" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="actionTypes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Actions</FormLabel>
+                    <div className="grid grid-cols-2 gap-1">
+                      {(Object.keys(EMERGENCY_ACTION_LABELS) as EmergencyActionType[]).map((actionType) => (
+                        <div key={actionType} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`rule-action-${actionType}`}
+                            checked={field.value.includes(actionType)}
+                            onCheckedChange={(checked) => field.onChange(toggle(field.value, actionType, checked === true))}
+                          />
+                          <Label htmlFor={`rule-action-${actionType}`} className="text-xs font-normal">{EMERGENCY_ACTION_LABELS[actionType]}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="disasterTypes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Disaster types</FormLabel>
+                    <div className="grid grid-cols-2 gap-1">
+                      {DISASTER_TYPES.map((disasterType) => (
+                        <div key={disasterType} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`rule-disaster-${disasterType}`}
+                            checked={field.value.includes(disasterType)}
+                            onCheckedChange={(checked) => field.onChange(toggle(field.value, disasterType, checked === true))}
+                          />
+                          <Label htmlFor={`rule-disaster-${disasterType}`} className="text-xs font-normal capitalize">{disasterType}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="minSeverity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum severity</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY_SEVERITY}>Any</SelectItem>
+                          {SEVERITIES.map((severity) => (
+                            <SelectItem key={severity} value={severity} className="capitalize">{severity}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="regions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Regions</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Houston, Miami" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="teams"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Also notify teams</FormLabel>
+                    <div className="grid grid-cols-2 gap-1">
+                      {Object.entries(config.teams).map(([teamId, team]) => (
+                        <div key={teamId} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`rule-team-${teamId}`}
+                            checked={field.value.includes(teamId)}
+                            onCheckedChange={(checked) => field.onChange(toggle(field.value, teamId, checked === true))}
+                          />
+                          <Label htmlFor={`rule-team-${teamId}`} className="text-xs font-normal">{team.teamName}</Label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Also notify role tags</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. medical, hazmat" {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="regionDevices"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Also broadcast to region devices</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit">Save Rule</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RoutingRulesEditor;
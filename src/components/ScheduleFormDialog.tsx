@@ -0,0 +1,199 @@
+import { useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ScheduledAlert, ScheduledAlertInput } from '@/services/alertScheduler';
+import { SEVERITIES } from '@/services/routingRules';
+
+const scheduleSchema = z.object({
+  regionName: z.string().trim().min(1, "Region is required"),
+  alertMessage: z.string().trim().min(1, "Alert message is required"),
+  instructions: z.string().trim(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  runAt: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Choose when the alert should be sent"),
+  repeats: z.boolean(),
+  repeatEveryHours: z.coerce.number().min(1, "Repeat at most once an hour").max(24 * 7, "Repeat at least once a week"),
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleSchema>;
+
+interface ScheduleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry?: ScheduledAlert; // Edits this alert instead of scheduling a new one
+  onSubmit: (input: ScheduledAlertInput) => void;
+}
+
+// datetime-local inputs take local time without a zone
+const toLocalInput = (date: Date) => new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+
+const toFormValues = (entry?: ScheduledAlert): ScheduleFormValues => ({
+  regionName: entry?.regionName ?? 'Downtown Metro Area',
+  alertMessage: entry?.alertMessage ?? '',
+  instructions: entry?.details?.instructions ?? '',
+  severity: entry?.severity ?? 'medium',
+  runAt: toLocalInput(entry?.nextRunAt ? new Date(entry.nextRunAt) : new Date(Date.now() + 60 * 60_000)),
+  repeats: Boolean(entry?.repeatEveryHours),
+  repeatEveryHours: entry?.repeatEveryHours ?? 6,
+});
+
+const ScheduleFormDialog = ({ open, onOpenChange, entry, onSubmit }: ScheduleFormDialogProps) => {
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleSchema),
+    defaultValues: toFormValues(entry),
+  });
+
+  useEffect(() => {
+    if (open) form.reset(toFormValues(entry));
+  }, [open, entry, form]);
+
+  const repeats = form.watch('repeats');
+
+  const handleSubmit = ({ regionName, alertMessage, instructions, severity, runAt, repeats, repeatEveryHours }: ScheduleFormValues) => {
+    onSubmit({
+      regionName,
+      alertMessage,
+      details: { ...entry?.details, instructions },
+      severity,
+      area: entry?.area,
+      runAt: new Date(runAt).toISOString(),
+      repeatEveryHours: repeats ? repeatEveryHours : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Edit Scheduled Alert' : 'Schedule Region Alert'}</DialogTitle>
+          <DialogDescription>
+            Sent to the region's recipients at the chosen time, and again at every interval until cancelled if it repeats.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 py-2">
+            <FormField
+              control={form.control}
+              name="regionName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Region</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="alertMessage"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alert message</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Curfew in effect from 22:00" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="instructions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Instructions</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="severity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Severity</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SEVERITIES.map((level) => (
+                          <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="runAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{entry?.runs.length ? 'Next run' : 'Send at'}</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="repeats"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <FormLabel>Repeat</FormLabel>
+                    <FormDescription>Keep sending until the alert is cancelled.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {repeats && (
+              <FormField
+                control={form.control}
+                name="repeatEveryHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every (hours)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit">{entry ? 'Save Changes' : 'Schedule Alert'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleFormDialog;
@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { TeamFormValues, teamSchema } from '@/services/contactDirectory';
+
+interface TeamFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: TeamFormValues) => void;
+}
+
+const emptyTeam: TeamFormValues = {
+  teamName: '',
+  head: { name: '', role: '', phoneNumber: '', email: '', tags: '' },
+};
+
+const fields: { name: 'teamName' | `head.${'name' | 'role' | 'phoneNumber' | 'email' | 'tags'}`; label: string; placeholder: string }[] = [
+  { name: 'teamName', label: 'Team name', placeholder: 'e.g. Hazmat Response' },
+  { name: 'head.name', label: 'Team head', placeholder: 'Full name' },
+  { name: 'head.role', label: 'Head role', placeholder: 'e.g. Hazmat Director' },
+  { name: 'head.phoneNumber', label: 'Head phone', placeholder: '+1-555-123-4567' },
+  { name: 'head.email', label: 'Head email', placeholder: 'name@emergency.org' },
+  { name: 'head.tags', label: 'Head role tags', placeholder: 'e.g. hazmat' },
+];
+
+const TeamFormDialog = ({ open, onOpenChange, onSubmit }: TeamFormDialogProps) => {
+  const form = useForm<TeamFormValues>({
+    resolver: zodResolver(teamSchema),
+    defaultValues: emptyTeam,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(emptyTeam);
+  }, [open, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>New Team</DialogTitle>
+          <DialogDescription>
+            Every team needs a head. Add members once the team exists, then choose which actions notify it.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
+            {fields.map(({ name, label, placeholder }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={placeholder} {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit">Create Team</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TeamFormDialog;
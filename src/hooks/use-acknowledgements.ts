@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { getAcknowledgements, subscribeToAcknowledgements } from "@/services/acknowledgementService"
+
+export function useAcknowledgements(reportId?: string) {
+  const acknowledgements = React.useSyncExternalStore(subscribeToAcknowledgements, getAcknowledgements)
+
+  return React.useMemo(
+    () => reportId ? acknowledgements.filter((entry) => entry.reportId === reportId) : acknowledgements,
+    [acknowledgements, reportId]
+  )
+}
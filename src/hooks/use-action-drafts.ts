@@ -0,0 +1,15 @@
+import * as React from "react"
+
+import { getActionDrafts, getCurrentOperatorId, getOperator, subscribeToActionDrafts } from "@/services/actionAuthorization"
+import { useEmergencyConfig } from "@/hooks/use-emergency-config"
+
+export function useActionDrafts() {
+  return React.useSyncExternalStore(subscribeToActionDrafts, getActionDrafts)
+}
+
+export function useCurrentOperator() {
+  const config = useEmergencyConfig()
+  const operatorId = React.useSyncExternalStore(subscribeToActionDrafts, getCurrentOperatorId)
+
+  return getOperator(operatorId, config) ?? null
+}
@@ -0,0 +1,7 @@
+import * as React from "react"
+
+import { getAuditEntries, subscribeToAuditLog } from "@/services/auditLog"
+
+export function useAuditLog() {
+  return React.useSyncExternalStore(subscribeToAuditLog, getAuditEntries)
+}
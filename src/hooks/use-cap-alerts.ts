@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { getPublishedCapAlerts, subscribeToCapAlerts } from "@/services/capAlerts"
+
+export function useCapAlerts(reportId?: string) {
+  const published = React.useSyncExternalStore(subscribeToCapAlerts, getPublishedCapAlerts)
+
+  return React.useMemo(
+    () => reportId ? published.filter((entry) => entry.reportId === reportId) : published,
+    [published, reportId]
+  )
+}
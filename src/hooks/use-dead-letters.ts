@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { getDeadLetters, subscribeToDeadLetters } from "@/services/deadLetterQueue"
+
+export function useDeadLetters(reportId?: string) {
+  const deadLetters = React.useSyncExternalStore(subscribeToDeadLetters, getDeadLetters)
+
+  return React.useMemo(
+    () => reportId ? deadLetters.filter((entry) => entry.reportId === reportId) : deadLetters,
+    [deadLetters, reportId]
+  )
+}
@@ -0,0 +1,7 @@
+import * as React from "react"
+
+import { getEmergencyConfig, subscribeToEmergencyConfig } from "@/services/configStore"
+
+export function useEmergencyConfig() {
+  return React.useSyncExternalStore(subscribeToEmergencyConfig, getEmergencyConfig)
+}
@@ -0,0 +1,15 @@
+import * as React from "react"
+
+import { getEscalationState, subscribeToEscalations } from "@/services/escalationService"
+
+export function useEscalations(reportId: string) {
+  const { log, active } = React.useSyncExternalStore(subscribeToEscalations, getEscalationState)
+
+  return React.useMemo(
+    () => ({
+      entries: log.filter((entry) => entry.reportId === reportId),
+      isActive: active.some((key) => key.startsWith(`${reportId}:`)),
+    }),
+    [log, active, reportId]
+  )
+}
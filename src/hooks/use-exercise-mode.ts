@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import { getSinkMessages, subscribeToSinkMessages } from "@/services/exerciseMode"
+import { useEmergencyConfig } from "@/hooks/use-emergency-config"
+
+export function useExerciseMode() {
+  return useEmergencyConfig().exercise
+}
+
+export function useSinkMessages() {
+  return React.useSyncExternalStore(subscribeToSinkMessages, getSinkMessages)
+}
@@ -0,0 +1,19 @@
+import * as React from "react"
+
+import { canAmendAlert, getAlertChain, getIssuedAlerts, subscribeToIssuedAlerts } from "@/services/alertHistory"
+
+// The alert a report was sent as, with every version of that alert and whether it can still be amended
+export function useIssuedAlert(reportId?: string) {
+  const issuedAlerts = React.useSyncExternalStore(subscribeToIssuedAlerts, getIssuedAlerts)
+
+  return React.useMemo(() => {
+    const alert = reportId ? issuedAlerts.find((entry) => entry.reportId === reportId) : undefined
+    if (!alert) return null
+
+    return {
+      alert,
+      chain: getAlertChain(alert.alertId, issuedAlerts),
+      canAmend: canAmendAlert(alert.reportId, issuedAlerts),
+    }
+  }, [issuedAlerts, reportId])
+}
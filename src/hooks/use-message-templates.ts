@@ -0,0 +1,7 @@
+import * as React from "react"
+
+import { getTemplates, subscribeToTemplates } from "@/services/messageTemplates"
+
+export function useMessageTemplates() {
+  return React.useSyncExternalStore(subscribeToTemplates, getTemplates)
+}
@@ -0,0 +1,7 @@
+import * as React from "react"
+
+import { getScheduledAlerts, subscribeToScheduledAlerts } from "@/services/alertScheduler"
+
+export function useScheduledAlerts() {
+  return React.useSyncExternalStore(subscribeToScheduledAlerts, getScheduledAlerts)
+}
@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, ShieldCheck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuditLog } from '@/hooks/use-audit-log';
+import { useToast } from '@/hooks/use-toast';
+import { AuditEntry, AuditResult, auditLogToCsv, auditLogToJson, verifyAuditLog } from '@/services/auditLog';
+
+const resultVariants: Record<AuditResult, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  completed: 'default',
+  cancelled: 'secondary',
+  blocked: 'destructive',
+  failed: 'destructive',
+  missed: 'destructive',
+  approved: 'outline',
+  rejected: 'secondary',
+};
+
+const downloadFile = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Everything a search can match: the action, its result, region, operators and every recipient
+const searchableText = (entry: AuditEntry) => [
+  entry.action,
+  entry.result,
+  entry.reason,
+  entry.regionName,
+  entry.requestedBy?.name,
+  entry.approvedBy?.name,
+  entry.exercise ? 'exercise' : '',
+  ...entry.recipients.flatMap(({ recipient, group, address }) => [recipient, group, address]),
+].join(' ').toLowerCase();
+
+const AuditLog = () => {
+  const entries = useAuditLog();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+
+  const matching = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return entries.filter((entry) => terms.every((term) => searchableText(entry).includes(term))).reverse();
+  }, [entries, query]);
+
+  const handleVerify = async () => {
+    const result = await verifyAuditLog();
+    if (result.valid) {
+      toast({ title: "Audit log intact", description: `All ${result.checked} entries match their hashes.` });
+    } else {
+      toast({
+        title: "Audit log has been altered",
+        description: `Entry ${result.brokenAt}: ${result.reason}. The ${result.checked} entries before it are intact.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <header>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link to="/"><ArrowLeft className="mr-2 h-4 w-4" /> Dashboard</Link>
+          </Button>
+          <h1 className="text-3xl font-bold mb-2">Audit Log</h1>
+          <div className="flex justify-between items-end gap-4">
+            <p className="text-muted-foreground max-w-3xl">
+              Every emergency action with who ran it, who it reached and how delivery went, including actions that were
+              blocked or failed and every approval or rejection of a draft. Entries can't be changed;
+              each is hash-chained to the one before it, so any tampering shows up when the chain is verified.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleVerify}>
+                <ShieldCheck className="mr-2 h-4 w-4" /> Verify Chain
+              </Button>
+              <Button variant="outline" onClick={() => downloadFile(auditLogToJson(matching), 'application/json', `audit-log-${stamp}.json`)}>
+                <Download className="mr-2 h-4 w-4" /> JSON
+              </Button>
+              <Button variant="outline" onClick={() => downloadFile(auditLogToCsv(matching), 'text/csv', `audit-log-${stamp}.csv`)}>
+                <Download className="mr-2 h-4 w-4" /> CSV
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+            <CardTitle className="text-lg">
+              {matching.length} of {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+            </CardTitle>
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search actions, regions, operators, recipients"
+              className="max-w-sm"
+            />
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Region</TableHead>
+                  <TableHead>Operators</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Recipients</TableHead>
+                  <TableHead>Hash</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matching.map((entry) => (
+                  <TableRow key={entry.sequence}>
+                    <TableCell>{entry.sequence}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.startedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {entry.action}
+                      {entry.exercise && <Badge variant="outline" className="ml-2 border-amber-400 text-amber-700 text-[10px]">Exercise</Badge>}
+                    </TableCell>
+                    <TableCell>{entry.regionName}</TableCell>
+                    <TableCell className="text-xs">
+                      {entry.requestedBy?.name ?? 'Unknown'}
+                      {entry.approvedBy && <span className="text-muted-foreground"> · approved by {entry.approvedBy.name}</span>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <Badge variant={resultVariants[entry.result]} className="mr-2 capitalize">{entry.result}</Badge>
+                      {entry.outcome.sent}/{entry.outcome.total} sent
+                      {entry.outcome.failed > 0 && <span className="text-red-600"> · {entry.outcome.failed} failed</span>}
+                      {entry.outcome.cancelled > 0 && <span className="text-muted-foreground"> · {entry.outcome.cancelled} cancelled</span>}
+                      {entry.reason && <p className="text-muted-foreground max-w-xs mt-1">{entry.reason}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <details>
+                        <summary className="cursor-pointer">{entry.recipients.length}</summary>
+                        <ul className="mt-1 space-y-0.5">
+                          {entry.recipients.map((recipient, index) => (
+                            <li key={index}>
+                              {recipient.recipient} ({recipient.group}) {recipient.channel}:{recipient.address} – {recipient.status}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs" title={entry.hash}>{entry.hash.slice(0, 12)}</TableCell>
+                  </TableRow>
+                ))}
+                {matching.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      {entries.length === 0 ? 'No actions have been recorded yet.' : 'No entries match the search.'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
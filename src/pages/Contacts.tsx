@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Crown, Pencil, Plus, Trash2, UserPlus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import ActionRecipientsEditor from '@/components/ActionRecipientsEditor';
+import AuthorizationSettings from '@/components/AuthorizationSettings';
+import ExerciseSettings from '@/components/ExerciseSettings';
+import ContactFormDialog from '@/components/ContactFormDialog';
+import RoutingRulesEditor from '@/components/RoutingRulesEditor';
+import TeamFormDialog from '@/components/TeamFormDialog';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ContactFormValues,
+  ContactRef,
+  TeamFormValues,
+  addContact,
+  createTeam,
+  getTeamContacts,
+  promoteToHead,
+  removeContact,
+  removeTeam,
+  updateContact,
+} from '@/services/contactDirectory';
+import { LOCALE_LABELS, resolveLocale } from '@/services/messageTemplates';
+
+type EditorState =
+  | { mode: 'add'; teamId: string }
+  | { mode: 'edit'; teamId: string; ref: ContactRef; values: ContactFormValues };
+
+const Contacts = () => {
+  const config = useEmergencyConfig();
+  const { toast } = useToast();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [creatingTeam, setCreatingTeam] = useState(false);
+
+  const runChange = (change: () => void, title: string, description: string) => {
+    try {
+      change();
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        title: "Change not applied",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = (values: ContactFormValues) => {
+    if (!editor) return;
+    const teamName = config.teams[editor.teamId].teamName;
+    if (editor.mode === 'add') {
+      runChange(() => addContact(editor.teamId, values), "Contact added", `${values.name} joined ${teamName}.`);
+    } else {
+      runChange(() => updateContact(editor.teamId, editor.ref, values), "Contact updated", `${values.name}'s details were saved.`);
+    }
+    setEditor(null);
+  };
+
+  const handleCreateTeam = (values: TeamFormValues) => {
+    runChange(() => createTeam(values), "Team created", `${values.teamName} can now be notified by emergency actions.`);
+    setCreatingTeam(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <header>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link to="/"><ArrowLeft className="mr-2 h-4 w-4" /> Dashboard</Link>
+          </Button>
+          <h1 className="text-3xl font-bold mb-2">Emergency Contacts</h1>
+          <div className="flex justify-between items-end gap-4">
+            <p className="text-muted-foreground max-w-3xl">
+              Team heads and members notified by each emergency action. Changes take effect for the next dispatch.
+            </p>
+            <Button onClick={() => setCreatingTeam(true)}>
+              <Plus className="mr-2 h-4 w-4" /> New Team
+            </Button>
+          </div>
+        </header>
+
+        <ActionRecipientsEditor />
+
+        <RoutingRulesEditor />
+
+        <AuthorizationSettings />
+
+        <ExerciseSettings />
+
+        {Object.entries(config.teams).map(([teamId, team]) => {
+          return (
+            <Card key={teamId}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg">{team.teamName}</CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditor({ mode: 'add', teamId })}>
+                    <UserPlus className="mr-2 h-4 w-4" /> Add Member
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => runChange(() => removeTeam(teamId), "Team removed", `${team.teamName} will no longer be notified.`)}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" /> Remove Team
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Language</TableHead>
+                      <TableHead>Tags</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {getTeamContacts(team).map(({ ref, contact }) => (
+                      <TableRow key={ref.position === 'head' ? 'head' : ref.index}>
+                        <TableCell className="font-medium">
+                          {contact.name}
+                          {ref.position === 'head' && (
+                            <Badge variant="secondary" className="ml-2 text-[10px]">Team Head</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{contact.role}</TableCell>
+                        <TableCell>{contact.phoneNumber}</TableCell>
+                        <TableCell>{contact.email}</TableCell>
+                        <TableCell>{contact.locale ? LOCALE_LABELS[resolveLocale(contact.locale)] : 'Default'}</TableCell>
+                        <TableCell className="space-x-1">
+                          {contact.tags?.map((tag) => (
+                            <Badge key={tag} variant="outline" className="text-[10px]">{tag}</Badge>
+                          ))}
+                        </TableCell>
+                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                          {ref.position === 'member' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Make team head"
+                              onClick={() => runChange(() => promoteToHead(teamId, ref.index), "Team head changed", `${contact.name} now leads ${team.teamName}.`)}
+                            >
+                              <Crown className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Edit contact"
+                            onClick={() => setEditor({
+                              mode: 'edit',
+                              teamId,
+                              ref,
+                              values: {
+                                name: contact.name,
+                                role: contact.role,
+                                phoneNumber: contact.phoneNumber,
+                                email: contact.email,
+                                locale: contact.locale ? resolveLocale(contact.locale) : undefined,
+                                tags: contact.tags?.join(', ') ?? '',
+                              },
+                            })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={ref.position === 'head' ? 'Make another member head before removing' : 'Remove contact'}
+                            disabled={ref.position === 'head'}
+                            onClick={() => runChange(() => removeContact(teamId, ref), "Contact removed", `${contact.name} was removed from ${team.teamName}.`)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <ContactFormDialog
+        open={editor !== null}
+        onOpenChange={(open) => !open && setEditor(null)}
+        title={editor?.mode === 'edit' ? 'Edit Contact' : 'Add Team Member'}
+        description={editor ? config.teams[editor.teamId]?.teamName ?? '' : ''}
+        initialValues={editor?.mode === 'edit' ? editor.values : undefined}
+        onSubmit={handleSubmit}
+      />
+
+      <TeamFormDialog open={creatingTeam} onOpenChange={setCreatingTeam} onSubmit={handleCreateTeam} />
+    </div>
+  );
+};
+
+export default Contacts;
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import DeviceFormDialog from '@/components/DeviceFormDialog';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DeviceFormValues,
+  deviceAddress,
+  registerDevice,
+  removeDevice,
+  setDeviceOptIn,
+  toDeviceFormValues,
+  updateDevice,
+} from '@/services/deviceRegistry';
+import { formatGeoPoint } from '@/services/geoArea';
+import { LOCALE_LABELS, resolveLocale } from '@/services/messageTemplates';
+
+type EditorState = { mode: 'add' } | { mode: 'edit'; id: string; values: DeviceFormValues };
+
+const Devices = () => {
+  const { devices } = useEmergencyConfig();
+  const { toast } = useToast();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+
+  const runChange = (change: () => void, title: string, description: string) => {
+    try {
+      change();
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        title: "Change not applied",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = (values: DeviceFormValues) => {
+    if (!editor) return;
+    if (editor.mode === 'add') {
+      runChange(() => registerDevice(values), "Device registered", `${values.owner}'s device will receive broadcasts for its regions.`);
+    } else {
+      runChange(() => updateDevice(editor.id, values), "Device updated", `${values.owner}'s device was saved.`);
+    }
+    setEditor(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <header>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link to="/"><ArrowLeft className="mr-2 h-4 w-4" /> Dashboard</Link>
+          </Button>
+          <h1 className="text-3xl font-bold mb-2">Device Registry</h1>
+          <div className="flex justify-between items-end gap-4">
+            <p className="text-muted-foreground max-w-3xl">
+              Phones and devices that receive region broadcasts. A broadcast only reaches opted-in devices registered to its region.
+            </p>
+            <Button onClick={() => setEditor({ mode: 'add' })}>
+              <Plus className="mr-2 h-4 w-4" /> Register Device
+            </Button>
+          </div>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{devices.length} registered {devices.length === 1 ? 'device' : 'devices'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Regions</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead>Opted In</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {devices.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">No devices registered yet.</TableCell>
+                  </TableRow>
+                )}
+                {devices.map((device) => (
+                  <TableRow key={device.id}>
+                    <TableCell className="font-medium">{device.owner}</TableCell>
+                    <TableCell className="uppercase text-xs">{device.channel}</TableCell>
+                    <TableCell className="font-mono text-xs">{deviceAddress(device)}</TableCell>
+                    <TableCell className="space-x-1">
+                      {device.regions.length > 0 ? device.regions.map((region) => (
+                        <Badge key={region} variant="outline" className="text-[10px]">{region}</Badge>
+                      )) : (
+                        <span className="text-xs text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{device.location ? formatGeoPoint(device.location) : '—'}</TableCell>
+                    <TableCell>{device.locale ? LOCALE_LABELS[resolveLocale(device.locale)] : 'Default'}</TableCell>
+                    <TableCell className="text-xs">{device.lastSeenAt ? new Date(device.lastSeenAt).toLocaleString() : 'Never'}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={device.optedIn}
+                        onCheckedChange={(optedIn) => runChange(
+                          () => setDeviceOptIn(device.id, optedIn),
+                          optedIn ? "Device opted in" : "Device opted out",
+                          optedIn ? `${device.owner}'s device will receive region broadcasts.` : `${device.owner}'s device will not receive broadcasts.`,
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit device"
+                        onClick={() => setEditor({ mode: 'edit', id: device.id, values: toDeviceFormValues(device) })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove device"
+                        onClick={() => runChange(() => removeDevice(device.id), "Device removed", `${deviceAddress(device)} was removed from the registry.`)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <DeviceFormDialog
+        open={editor !== null}
+        onOpenChange={(open) => !open && setEditor(null)}
+        title={editor?.mode === 'edit' ? 'Edit Device' : 'Register Device'}
+        initialValues={editor?.mode === 'edit' ? editor.values : undefined}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  );
+};
+
+export default Devices;
@@ -1,17 +1,30 @@
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import DisasterMap from '@/components/DisasterMap';
 import AlertPanel from '@/components/AlertPanel';
 import WeatherPanel from '@/components/WeatherPanel';
 import EmergencyActions from '@/components/EmergencyActions';
 import DisasterStats from '@/components/DisasterStats';
+import OperatorSelect from '@/components/OperatorSelect';
+import ExerciseModeToggle from '@/components/ExerciseModeToggle';
+import MissedAlertsNotice from '@/components/MissedAlertsNotice';
+import { useExerciseMode } from '@/hooks/use-exercise-mode';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
-import { MapPin } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { CalendarClock, MapPin, ScrollText, Smartphone, Users } from 'lucide-react';
+import { TargetArea } from '@/services/geoArea';
+import { startSubscriberSync } from '@/services/subscriberRegistration';
 
 const Index = () => {
   const { toast } = useToast();
+  const [targetArea, setTargetArea] = useState<TargetArea | null>(null);
+  const exercise = useExerciseMode();
+
+  // Residents verified at /subscribe are added to the device registry while the dashboard is open
+  useEffect(() => startSubscriberSync(), []);
   const [mapboxToken, setMapboxToken] = useState<string>('pk.eyJ1IjoiZGVtb3VzZXIyMDI1IiwiYSI6ImNscm1rOTgyYTBsN3YyanBsMWhmb2xuOHIifQ.sTmW8qmLWb_1ZRuR1oVK8g');
   
   // Sample disaster data
@@ -115,10 +128,16 @@ const Index = () => {
   };
 
   return (
-    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+    <div className={cn(
+      'min-h-screen bg-gradient-to-b from-background to-muted',
+      exercise.active && 'from-amber-50 to-amber-100 border-x-8 border-amber-400',
+    )}>
       <div className="container mx-auto px-4 py-8">
         <header className="mb-8">
-          <h1 className="text-4xl font-bold mb-2">Sentinel Compass AI</h1>
+          <h1 className="text-4xl font-bold mb-2">
+            Sentinel Compass AI
+            {exercise.active && <span className="ml-3 align-middle text-lg font-semibold text-amber-700">Exercise</span>}
+          </h1>
           <p className="text-muted-foreground max-w-3xl">
             AI-powered disaster management platform for real-time situational awareness, 
             predictive analytics, and emergency response coordination.
@@ -128,13 +147,43 @@ const Index = () => {
               <Button variant="outline" onClick={refreshData}>
                 Refresh Data
               </Button>
+              <Button variant="outline" asChild>
+                <Link to="/contacts">
+                  <Users className="mr-2 h-4 w-4" />
+                  Contacts
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/devices">
+                  <Smartphone className="mr-2 h-4 w-4" />
+                  Devices
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/schedule">
+                  <CalendarClock className="mr-2 h-4 w-4" />
+                  Schedule
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/audit">
+                  <ScrollText className="mr-2 h-4 w-4" />
+                  Audit Log
+                </Link>
+              </Button>
+              <ExerciseModeToggle />
             </div>
-            <div className="text-sm text-muted-foreground" id="last-updated">
-              Last updated: {new Date().toLocaleString()}
+            <div className="flex items-center gap-4">
+              <OperatorSelect />
+              <div className="text-sm text-muted-foreground" id="last-updated">
+                Last updated: {new Date().toLocaleString()}
+              </div>
             </div>
           </div>
         </header>
 
+        <MissedAlertsNotice />
+
         {/* Mapbox Token Input */}
         <div className="mb-6 p-4 border rounded-lg bg-card">
           <form onSubmit={updateMapboxToken} className="flex flex-col sm:flex-row gap-2">
@@ -160,10 +209,10 @@ const Index = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main content - Map takes 2/3 of the screen on large displays */}
           <div className="lg:col-span-2 space-y-6">
-            <DisasterMap disasters={disasters} mapboxToken={mapboxToken} />
+            <DisasterMap disasters={disasters} mapboxToken={mapboxToken} targetArea={targetArea} onTargetAreaChange={setTargetArea} />
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <DisasterStats />
-              <EmergencyActions />
+              <EmergencyActions targetArea={targetArea} />
             </div>
           </div>
 
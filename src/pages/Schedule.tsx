@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, ArrowLeft, Ban, Pencil, Plus, Send, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import ScheduleFormDialog from '@/components/ScheduleFormDialog';
+import { useScheduledAlerts } from '@/hooks/use-scheduled-alerts';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ScheduledAlert,
+  ScheduledAlertInput,
+  ScheduledRun,
+  cancelScheduledAlert,
+  discardMissedAlert,
+  removeScheduledAlert,
+  scheduleAlert,
+  sendMissedAlert,
+  updateScheduledAlert,
+} from '@/services/alertScheduler';
+
+type EditorState = { mode: 'add' } | { mode: 'edit'; entry: ScheduledAlert };
+
+const statusVariants: Record<ScheduledAlert['status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  scheduled: 'default',
+  completed: 'secondary',
+  cancelled: 'outline',
+  missed: 'destructive',
+};
+
+const describeRun = (run: ScheduledRun) =>
+  run.error ?? `${run.sent ?? 0} sent${run.failed ? `, ${run.failed} failed` : ''}`;
+
+// Upcoming first, then finished and cancelled alerts, most recent first
+const byNextRun = (a: ScheduledAlert, b: ScheduledAlert) => {
+  if (a.nextRunAt && b.nextRunAt) return Date.parse(a.nextRunAt) - Date.parse(b.nextRunAt);
+  if (a.nextRunAt || b.nextRunAt) return a.nextRunAt ? -1 : 1;
+  return Date.parse(b.createdAt) - Date.parse(a.createdAt);
+};
+
+const Schedule = () => {
+  const entries = useScheduledAlerts();
+  const { toast } = useToast();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const missed = entries.filter((entry) => entry.status === 'missed');
+
+  const runChange = async (change: () => unknown, title: string, description: string) => {
+    try {
+      await change();
+      toast({ title, description });
+    } catch (error) {
+      toast({
+        title: "Change not applied",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = (input: ScheduledAlertInput) => {
+    if (!editor) return;
+    const when = new Date(input.runAt).toLocaleString();
+    if (editor.mode === 'add') {
+      runChange(() => scheduleAlert(input), "Alert scheduled", `${input.regionName} will be alerted at ${when}.`);
+    } else {
+      runChange(() => updateScheduledAlert(editor.entry.id, input), "Scheduled alert updated", `Next run at ${when}.`);
+    }
+    setEditor(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <header>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link to="/"><ArrowLeft className="mr-2 h-4 w-4" /> Dashboard</Link>
+          </Button>
+          <h1 className="text-3xl font-bold mb-2">Scheduled Alerts</h1>
+          <div className="flex justify-between items-end gap-4">
+            <p className="text-muted-foreground max-w-3xl">
+              Region alerts queued for later, such as curfew reminders, and advisories that repeat until cancelled.
+              The queue is kept on this device; alerts only go out while the dashboard is open, and one that came due while it was closed is sent when it reopens.
+              A one-off alert more than 30 minutes late is held as missed until you send or discard it.
+            </p>
+            <Button onClick={() => setEditor({ mode: 'add' })}>
+              <Plus className="mr-2 h-4 w-4" /> Schedule Alert
+            </Button>
+          </div>
+        </header>
+
+        {missed.length > 0 && (
+          <Card className="border-red-300 bg-red-50">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2 text-red-800">
+                <AlertTriangle className="h-5 w-5" />
+                {missed.length} missed {missed.length === 1 ? 'alert needs' : 'alerts need'} a decision
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {missed.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-4">
+                  <div className="text-sm">
+                    <span className="font-medium">{entry.regionName}</span>: {entry.alertMessage}
+                    {entry.runs.length > 0 && <p className="text-xs text-muted-foreground">{describeRun(entry.runs[entry.runs.length - 1])}</p>}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" onClick={() => runChange(() => sendMissedAlert(entry.id), "Missed alert sent", `The alert to ${entry.regionName} has gone out.`)}>
+                      <Send className="mr-2 h-4 w-4" /> Send Now
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => runChange(() => discardMissedAlert(entry.id), "Missed alert discarded", `Nothing will be sent to ${entry.regionName}.`)}>
+                      <X className="mr-2 h-4 w-4" /> Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {entries.filter((entry) => entry.status === 'scheduled').length} upcoming
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Next run</TableHead>
+                  <TableHead>Region</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Repeats</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last run</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...entries].sort(byNextRun).map((entry) => {
+                  const lastRun = entry.runs[entry.runs.length - 1];
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{entry.nextRunAt ? new Date(entry.nextRunAt).toLocaleString() : '—'}</TableCell>
+                      <TableCell>{entry.regionName}</TableCell>
+                      <TableCell className="max-w-[260px]">
+                        {entry.alertMessage}
+                        {entry.exercise && <Badge variant="outline" className="ml-2 border-amber-400 text-amber-700 text-[10px]">Exercise</Badge>}
+                      </TableCell>
+                      <TableCell>{entry.repeatEveryHours ? `Every ${entry.repeatEveryHours} h` : 'Once'}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[entry.status]} className="capitalize">{entry.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {lastRun ? (
+                          <span title={entry.runs.map((run) => `${new Date(run.ranAt).toLocaleString()}: ${describeRun(run)}`).join('\n')}>
+                            {new Date(lastRun.ranAt).toLocaleString()} · {describeRun(lastRun)}
+                            {entry.runs.length > 1 && <span className="text-muted-foreground"> ({entry.runs.length} runs)</span>}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Not run yet</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {entry.status === 'missed' ? (
+                          <span className="text-xs text-muted-foreground">Send or discard above</span>
+                        ) : entry.status === 'scheduled' ? (
+                          <>
+                            <Button variant="ghost" size="icon" title="Edit" onClick={() => setEditor({ mode: 'edit', entry })}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Cancel"
+                              onClick={() => runChange(() => cancelScheduledAlert(entry.id), "Scheduled alert cancelled", `No more alerts will be sent to ${entry.regionName} from this schedule.`)}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Remove"
+                            onClick={() => runChange(() => removeScheduledAlert(entry.id), "Scheduled alert removed", "Its past runs remain in the audit log.")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {entries.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">Nothing scheduled.</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ScheduleFormDialog
+        open={editor !== null}
+        onOpenChange={(open) => !open && setEditor(null)}
+        entry={editor?.mode === 'edit' ? editor.entry : undefined}
+        onSubmit={handleSubmit}
+      />
+    </div>
+  );
+};
+
+export default Schedule;
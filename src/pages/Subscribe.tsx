@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { BellRing, CheckCircle, Loader2, LocateFixed, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEmergencyConfig } from '@/hooks/use-emergency-config';
+import { useToast } from '@/hooks/use-toast';
+import { getKnownRegions } from '@/services/deviceRegistry';
+import { formatGeoPoint } from '@/services/geoArea';
+import { DEFAULT_LOCALE, LOCALE_LABELS } from '@/services/messageTemplates';
+import {
+  SubscriptionRequest,
+  VERIFICATION_CODE_LENGTH,
+  VerifiedSubscriber,
+  requestVerificationCode,
+  subscriptionSchema,
+  verifySubscriber,
+} from '@/services/subscriberRegistration';
+
+type Step =
+  | { stage: 'details' }
+  | { stage: 'verify'; request: SubscriptionRequest; phoneNumber: string }
+  | { stage: 'done'; subscriber: VerifiedSubscriber };
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Public page where residents opt in to SMS alerts for their regions and prove they hold the number
+const Subscribe = () => {
+  const { devices } = useEmergencyConfig();
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>({ stage: 'details' });
+  const [otherRegion, setOtherRegion] = useState('');
+  const [code, setCode] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const form = useForm<SubscriptionRequest>({
+    resolver: zodResolver(subscriptionSchema),
+    defaultValues: { name: '', phoneNumber: '', regions: [], location: '', locale: DEFAULT_LOCALE },
+  });
+
+  const chosenRegions = form.watch('regions');
+  const regionOptions = [...getKnownRegions(devices), ...chosenRegions]
+    .filter((region, index, regions) => regions.findIndex((other) => other.toLowerCase() === region.toLowerCase()) === index);
+
+  const sendCode = async (request: SubscriptionRequest) => {
+    setIsSending(true);
+    try {
+      const phoneNumber = await requestVerificationCode(request);
+      setCode('');
+      setStep({ stage: 'verify', request, phoneNumber });
+      toast({ title: "Code sent", description: `Enter the ${VERIFICATION_CODE_LENGTH}-digit code we texted to ${phoneNumber}.` });
+    } catch (error) {
+      toast({ title: "Code not sent", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerify = async (value = code) => {
+    if (step.stage !== 'verify' || value.length !== VERIFICATION_CODE_LENGTH || isVerifying) return;
+    setIsVerifying(true);
+    try {
+      setStep({ stage: 'done', subscriber: await verifySubscriber(step.phoneNumber, value) });
+    } catch (error) {
+      setCode('');
+      toast({ title: "Not verified", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const fillCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location unavailable", description: "Enter your latitude and longitude instead.", variant: "destructive" });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => form.setValue('location', formatGeoPoint(coords), { shouldValidate: true }),
+      (error) => toast({ title: "Location unavailable", description: error.message, variant: "destructive" }),
+    );
+  };
+
+  const addOtherRegion = () => {
+    const region = otherRegion.trim();
+    if (!region) return;
+    if (!chosenRegions.some((chosen) => chosen.toLowerCase() === region.toLowerCase())) {
+      form.setValue('regions', [...chosenRegions, region], { shouldValidate: true });
+    }
+    setOtherRegion('');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="container mx-auto max-w-lg px-4 py-12">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-2xl">
+              <BellRing className="h-6 w-6 text-red-600" /> Emergency Alerts Sign-up
+            </CardTitle>
+            <CardDescription>
+              Get evacuation orders, alerts and all-clears for your area by text message. We'll text you a code to confirm the number is yours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {step.stage === 'details' && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(sendCode)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="phoneNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Mobile number</FormLabel>
+                        <FormControl>
+                          <Input type="tel" autoComplete="tel" placeholder="+1 555 123 4567" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name (optional)</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="regions"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Regions</FormLabel>
+                        <FormDescription>You'll get alerts sent to any of these areas.</FormDescription>
+                        <div className="space-y-2">
+                          {regionOptions.map((region) => (
+                            <div key={region} className="flex items-center gap-2">
+                              <Checkbox
+                                id={`region-${region}`}
+                                checked={field.value.includes(region)}
+                                onCheckedChange={(checked) => field.onChange(
+                                  checked === true ? [...field.value, region] : field.value.filter((chosen) => chosen !== region),
+                                )}
+                              />
+                              <label htmlFor={`region-${region}`} className="text-sm">{region}</label>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex gap-2">
+                          <Input
+                            value={otherRegion}
+                            onChange={(e) => setOtherRegion(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key !== 'Enter') return;
+                              e.preventDefault();
+                              addOtherRegion();
+                            }}
+                            placeholder="Another region"
+                          />
+                          <Button type="button" variant="outline" size="icon" title="Add region" onClick={addOtherRegion}>
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Home location (optional)</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input placeholder="Latitude, longitude" {...field} />
+                          </FormControl>
+                          <Button type="button" variant="outline" size="icon" title="Use my current location" onClick={fillCurrentLocation}>
+                            <LocateFixed className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <FormDescription>
+                          Some alerts go only to an area drawn on a map. Without a location you'll get alerts for your whole region, but not those.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="locale"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Language</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(LOCALE_LABELS).map(([locale, label]) => (
+                              <SelectItem key={locale} value={locale}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={isSending}>
+                    {isSending ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending code...</> : 'Text Me a Code'}
+                  </Button>
+                </form>
+              </Form>
+            )}
+
+            {step.stage === 'verify' && (
+              <div className="space-y-4">
+                <p className="text-sm">
+                  Enter the {VERIFICATION_CODE_LENGTH}-digit code sent to <span className="font-medium">{step.phoneNumber}</span>.
+                </p>
+                <InputOTP
+                  maxLength={VERIFICATION_CODE_LENGTH}
+                  pattern={REGEXP_ONLY_DIGITS}
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerify}
+                  disabled={isVerifying}
+                  autoFocus
+                >
+                  <InputOTPGroup>
+                    {Array.from({ length: VERIFICATION_CODE_LENGTH }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+                <Button className="w-full" disabled={code.length !== VERIFICATION_CODE_LENGTH || isVerifying} onClick={() => handleVerify()}>
+                  {isVerifying ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> Verifying...</> : 'Verify'}
+                </Button>
+                <div className="flex justify-between text-sm">
+                  <Button variant="link" className="h-auto p-0" disabled={isSending} onClick={() => sendCode(step.request)}>
+                    Send a new code
+                  </Button>
+                  <Button variant="link" className="h-auto p-0" onClick={() => setStep({ stage: 'details' })}>
+                    Change details
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {step.stage === 'done' && (
+              <div className="space-y-2 text-center">
+                <CheckCircle className="mx-auto h-10 w-10 text-green-600" />
+                <p className="font-medium">You're signed up</p>
+                <p className="text-sm text-muted-foreground">
+                  {step.subscriber.phoneNumber} will receive emergency alerts for {step.subscriber.regions.join(', ')}.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Subscribe;
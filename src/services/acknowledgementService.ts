@@ -0,0 +1,165 @@
+import { gatewayUrl } from "./notificationChannels";
+import { Locale, resolveLocale } from "./messageTemplates";
+
+export type AcknowledgementMethod = "reply" | "endpoint" | "operator";
+
+export interface Acknowledgement {
+  token: string;
+  reportId: string;
+  recipient: string;
+  group: string;
+  sentAt: string;
+  acknowledgedAt: string | null;
+  method?: AcknowledgementMethod;
+}
+
+type Listener = () => void;
+
+export const ACK_KEYWORD = "ACK";
+const TOKEN_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I, so tokens are easy to type back
+const TOKEN_LENGTH = 6;
+const GATEWAY_POLL_INTERVAL_MS = 5000;
+
+// The keyword stays ACK in every language so replies parse the same way
+const ACK_INSTRUCTIONS: Record<Locale, { reply: (token: string) => string; link: (url: string) => string }> = {
+  en: { reply: token => `Reply ${ACK_KEYWORD} ${token} to confirm receipt.`, link: url => `Or confirm at ${url}` },
+  es: { reply: token => `Responda ${ACK_KEYWORD} ${token} para confirmar la recepción.`, link: url => `O confirme en ${url}` },
+  vi: { reply: token => `Trả lời ${ACK_KEYWORD} ${token} để xác nhận đã nhận.`, link: url => `Hoặc xác nhận tại ${url}` },
+  zh: { reply: token => `回复 ${ACK_KEYWORD} ${token} 确认收到。`, link: url => `或访问 ${url} 确认` }
+};
+
+let acknowledgements: Acknowledgement[] = [];
+const listeners = new Set<Listener>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let lastGatewayAckId = 0;
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+const generateToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH));
+  return Array.from(bytes, byte => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]).join("");
+};
+
+export const getAcknowledgements = (): Acknowledgement[] => acknowledgements;
+
+export const subscribeToAcknowledgements = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const issueAcknowledgementToken = (reportId: string, recipient: string, group: string): Acknowledgement => {
+  let token = generateToken();
+  while (acknowledgements.some(entry => entry.token === token)) {
+    token = generateToken();
+  }
+
+  const entry: Acknowledgement = { token, reportId, recipient, group, sentAt: new Date().toISOString(), acknowledgedAt: null };
+  acknowledgements = [...acknowledgements, entry];
+  emitChange();
+  startGatewayPolling();
+  return entry;
+};
+
+// Text appended to every message that expects an acknowledgement; the link is left out where space is short
+export const acknowledgementInstructions = (token: string, locale?: string, withLink = true): string => {
+  const text = ACK_INSTRUCTIONS[resolveLocale(locale)];
+  const instructions = text.reply(token);
+  if (!gatewayUrl || !withLink) return instructions;
+
+  const link = new URL(`${gatewayUrl}/ack/${token}`, window.location.origin).toString();
+  return `${instructions} ${text.link(link)}`;
+};
+
+// Returns false for unknown tokens; acknowledging twice keeps the first time
+export const recordAcknowledgement = (token: string, method: AcknowledgementMethod, acknowledgedAt = new Date().toISOString()): boolean => {
+  const normalized = token.trim().toUpperCase();
+  const entry = acknowledgements.find(ack => ack.token === normalized);
+  if (!entry) {
+    console.warn(`Ignoring acknowledgement for unknown token ${normalized}`);
+    return false;
+  }
+  if (entry.acknowledgedAt) return true;
+
+  acknowledgements = acknowledgements.map(ack => ack.token === normalized ? { ...ack, acknowledgedAt, method } : ack);
+  console.log(`${entry.recipient} acknowledged via ${method}`);
+  emitChange();
+  return true;
+};
+
+// Parses an inbound SMS reply such as "ack k7p2qz"
+export const handleReplyMessage = (text: string): boolean => {
+  const match = text.trim().match(new RegExp(`^${ACK_KEYWORD}\\s+([A-Z0-9]+)`, "i"));
+  return match ? recordAcknowledgement(match[1], "reply") : false;
+};
+
+export const isAcknowledged = (token: string): boolean =>
+  acknowledgements.some(entry => entry.token === token && entry.acknowledgedAt !== null);
+
+// Resolves true once any of the tokens is acknowledged, or false when the timeout passes or the signal aborts
+export const waitForAnyAcknowledgement = (tokens: string[], timeoutMs: number, signal?: AbortSignal): Promise<boolean> =>
+  new Promise(resolve => {
+    const anyAcknowledged = () => tokens.some(isAcknowledged);
+    if (anyAcknowledged()) {
+      resolve(true);
+      return;
+    }
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const finish = (acknowledged: boolean) => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener("abort", onAbort);
+      resolve(acknowledged);
+    };
+    const onAbort = () => finish(false);
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    const unsubscribe = subscribeToAcknowledgements(() => {
+      if (anyAcknowledged()) finish(true);
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export const waitForAcknowledgement = (token: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean> =>
+  waitForAnyAcknowledgement([token], timeoutMs, signal);
+
+export const getTimeToAcknowledgeMs = (entry: Acknowledgement): number | null =>
+  entry.acknowledgedAt ? new Date(entry.acknowledgedAt).getTime() - new Date(entry.sentAt).getTime() : null;
+
+// Replies and link clicks land on the gateway, so poll it while any acknowledgement is outstanding
+const pollGateway = async () => {
+  if (!acknowledgements.some(entry => !entry.acknowledgedAt)) {
+    stopGatewayPolling();
+    return;
+  }
+
+  try {
+    const response = await fetch(`${gatewayUrl}/acks?since=${lastGatewayAckId}`);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+    const received: { id: number; token: string; method: AcknowledgementMethod; receivedAt: string }[] = await response.json();
+    for (const ack of received) {
+      lastGatewayAckId = Math.max(lastGatewayAckId, ack.id);
+      recordAcknowledgement(ack.token, ack.method, ack.receivedAt);
+    }
+  } catch (error) {
+    console.error("Failed to poll gateway for acknowledgements:", error);
+  }
+};
+
+const startGatewayPolling = () => {
+  if (!gatewayUrl || pollTimer) return;
+  pollTimer = setInterval(pollGateway, GATEWAY_POLL_INTERVAL_MS);
+};
+
+const stopGatewayPolling = () => {
+  if (!pollTimer) return;
+  clearInterval(pollTimer);
+  pollTimer = null;
+};
@@ -0,0 +1,224 @@
+import type { AlertCorrection, EmergencyActionType, EmergencyConfig } from "./emergencyCommunicationService";
+import type { AmendmentType, TemplateVariables } from "./messageTemplates";
+import type { Severity } from "./routingRules";
+import type { TargetArea } from "./geoArea";
+import { getEmergencyConfig, updateEmergencyConfig } from "./configStore";
+import { canAmendAlert } from "./alertHistory";
+import { AuditOperator, AuditResult, recordAuditEntry } from "./auditLog";
+import { createDeliveryReport } from "./deliveryReport";
+
+// Two-person rule: one operator drafts a high-impact action, or a correction or cancellation of one, and a
+// second, authorised operator must approve it before it is dispatched. Operators pick who they are on the
+// dashboard; there is no sign-in yet, so anyone at the console can pick any operator and the rule is only
+// as strong as the operators' honesty until real sign-in exists.
+
+export interface Operator {
+  id: string;
+  name: string;
+  canApprove: boolean; // May act as the second person on another operator's draft
+}
+
+export interface AuthorizationPolicy {
+  twoPersonActions: EmergencyActionType[];
+  draftExpiryMinutes: number; // Unapproved drafts lapse after this long
+  operators: Operator[];
+}
+
+// What will be dispatched once the draft is approved
+export interface ActionRequest {
+  regionName: string;
+  details?: Partial<TemplateVariables>;
+  severity?: Severity;
+  area?: TargetArea;
+  exercise?: boolean; // Drafted while exercise mode was on; only approvable while it still is
+}
+
+// A correction or cancellation of an alert already sent; approving it amends that alert
+export interface DraftAmendment {
+  msgType: AmendmentType;
+  reportId: string; // The alert version being amended
+  correction?: AlertCorrection; // Set for corrections
+}
+
+export type DraftStatus = "pending" | "approved" | "rejected" | "expired";
+
+export interface ActionDraft {
+  id: string;
+  actionType: EmergencyActionType;
+  request: ActionRequest; // For amendments, the alert as it will read once amended
+  amends?: DraftAmendment;
+  draftedBy: string; // Operator id
+  draftedAt: string;
+  expiresAt: string;
+  status: DraftStatus;
+  decidedBy?: string; // Operator who approved or rejected it
+  decidedAt?: string;
+}
+
+type Listener = () => void;
+
+let drafts: ActionDraft[] = [];
+let currentOperatorId: string | null = null;
+const listeners = new Set<Listener>();
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const getActionDrafts = (): ActionDraft[] => drafts;
+
+export const subscribeToActionDrafts = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getOperator = (operatorId: string | null, config = getEmergencyConfig()): Operator | undefined =>
+  config.authorization.operators.find(operator => operator.id === operatorId);
+
+// null until someone at the console picks themselves
+export const getCurrentOperatorId = (): string | null =>
+  getOperator(currentOperatorId) ? currentOperatorId : null;
+
+// As the audit log keeps them, named as they are now
+export const auditOperator = (operatorId: string | null | undefined, config = getEmergencyConfig()): AuditOperator | null => {
+  const operator = getOperator(operatorId ?? null, config);
+  return operator ? { id: operator.id, name: operator.name } : null;
+};
+
+export const setCurrentOperator = (operatorId: string): void => {
+  if (!getOperator(operatorId)) throw new Error(`Unknown operator ${operatorId}`);
+  currentOperatorId = operatorId;
+  emitChange();
+};
+
+export const requiresSecondApprover = (actionType: EmergencyActionType, config = getEmergencyConfig()): boolean =>
+  config.authorization.twoPersonActions.includes(actionType);
+
+const updateDraft = (id: string, changes: Partial<ActionDraft>): ActionDraft => {
+  drafts = drafts.map(draft => draft.id === id ? { ...draft, ...changes } : draft);
+  emitChange();
+  return drafts.find(draft => draft.id === id)!;
+};
+
+const settleDraft = (id: string) => {
+  clearTimeout(expiryTimers.get(id));
+  expiryTimers.delete(id);
+};
+
+export const draftAction = (
+  actionType: EmergencyActionType,
+  request: ActionRequest,
+  operatorId: string,
+  config = getEmergencyConfig(),
+  amends?: DraftAmendment
+): ActionDraft => {
+  if (!getOperator(operatorId, config)) throw new Error(`Unknown operator ${operatorId}`);
+
+  const draftedAt = new Date();
+  const expiryMs = config.authorization.draftExpiryMinutes * 60_000;
+  const draft: ActionDraft = {
+    id: crypto.randomUUID(),
+    actionType,
+    request: { ...request, exercise: config.exercise.active },
+    ...(amends ? { amends } : {}),
+    draftedBy: operatorId,
+    draftedAt: draftedAt.toISOString(),
+    expiresAt: new Date(draftedAt.getTime() + expiryMs).toISOString(),
+    status: "pending"
+  };
+  drafts = [draft, ...drafts];
+  expiryTimers.set(draft.id, setTimeout(() => {
+    expiryTimers.delete(draft.id);
+    if (drafts.find(candidate => candidate.id === draft.id)?.status === "pending") updateDraft(draft.id, { status: "expired" });
+  }, expiryMs));
+  emitChange();
+  return draft;
+};
+
+// Why the operator can't approve the draft, or null when they can
+export const approvalBlocker = (draft: ActionDraft, operatorId: string | null, config = getEmergencyConfig()): string | null => {
+  const operator = getOperator(operatorId, config);
+  if (draft.status !== "pending") return `This draft is ${draft.status}`;
+  if (Date.parse(draft.expiresAt) <= Date.now()) return "This draft has expired";
+  if (draft.amends && !canAmendAlert(draft.amends.reportId)) return "The alert has since been corrected or cancelled";
+  if ((draft.request.exercise ?? false) !== config.exercise.active) {
+    return draft.request.exercise ? "Drafted during an exercise; resume the exercise to approve it" : "Drafted for real operations; end the exercise to approve it";
+  }
+  if (!operator) return "Choose who you are before approving";
+  if (operator.id === draft.draftedBy) return "A second operator must approve your draft";
+  if (!operator.canApprove) return `${operator.name} is not authorised to approve`;
+  return null;
+};
+
+// Approvals, refused approvals and rejections are audited under the draft's action; the dispatch that follows an approval is audited on its own
+const recordDecision = (draft: ActionDraft, operatorId: string | null, result: AuditResult, reason: string | undefined, config: EmergencyConfig) => {
+  const action = draft.amends ? `Draft ${draft.amends.msgType === "Cancel" ? "Cancellation" : "Correction"}` : "Draft";
+  const report = createDeliveryReport(action, draft.request.regionName);
+  report.completedAt = report.startedAt;
+  void recordAuditEntry(report, {
+    actionType: draft.actionType,
+    exercise: draft.request.exercise ?? false,
+    requestedBy: auditOperator(draft.draftedBy, config),
+    approvedBy: result === "approved" ? auditOperator(operatorId, config) : null
+  }, result, reason);
+};
+
+// Marks the draft approved; the caller dispatches its request
+export const approveDraft = (id: string, operatorId: string | null, config = getEmergencyConfig()): ActionDraft => {
+  const draft = drafts.find(candidate => candidate.id === id);
+  if (!draft) throw new Error(`Unknown draft ${id}`);
+
+  const blocker = approvalBlocker(draft, operatorId, config);
+  if (blocker) {
+    recordDecision(draft, operatorId, "blocked", `Approval by ${getOperator(operatorId, config)?.name ?? "an unidentified operator"} refused: ${blocker}`, config);
+    throw new Error(blocker);
+  }
+
+  settleDraft(id);
+  recordDecision(draft, operatorId, "approved", undefined, config);
+  return updateDraft(id, { status: "approved", decidedBy: operatorId, decidedAt: new Date().toISOString() });
+};
+
+// Either a reviewer turning it down or the drafter withdrawing it
+export const rejectDraft = (id: string, operatorId: string): ActionDraft => {
+  const draft = drafts.find(candidate => candidate.id === id);
+  if (draft?.status !== "pending") throw new Error("Only pending drafts can be rejected");
+
+  settleDraft(id);
+  const reason = operatorId === draft.draftedBy ? "Withdrawn by the drafter" : `Rejected by ${getOperator(operatorId)?.name ?? "an unidentified operator"}`;
+  recordDecision(draft, operatorId, "rejected", reason, getEmergencyConfig());
+  return updateDraft(id, { status: "rejected", decidedBy: operatorId, decidedAt: new Date().toISOString() });
+};
+
+export const updateAuthorizationPolicy = (changes: Partial<AuthorizationPolicy>): EmergencyConfig =>
+  updateEmergencyConfig(config => ({ ...config, authorization: { ...config.authorization, ...changes } }));
+
+export const addOperator = (name: string, canApprove: boolean): EmergencyConfig => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("Operator name is required");
+  return updateEmergencyConfig(config => ({
+    ...config,
+    authorization: {
+      ...config.authorization,
+      operators: [...config.authorization.operators, { id: crypto.randomUUID(), name: trimmed, canApprove }]
+    }
+  }));
+};
+
+export const updateOperator = (id: string, changes: Partial<Omit<Operator, "id">>): EmergencyConfig =>
+  updateEmergencyConfig(config => ({
+    ...config,
+    authorization: {
+      ...config.authorization,
+      operators: config.authorization.operators.map(operator => operator.id === id ? { ...operator, ...changes } : operator)
+    }
+  }));
+
+export const removeOperator = (id: string): EmergencyConfig =>
+  updateEmergencyConfig(config => ({
+    ...config,
+    authorization: { ...config.authorization, operators: config.authorization.operators.filter(operator => operator.id !== id) }
+  }));
@@ -0,0 +1,65 @@
+import type { EmergencyActionType } from "./emergencyCommunicationService";
+import type { TemplateVariables } from "./messageTemplates";
+import type { Severity } from "./routingRules";
+import type { TargetArea } from "./geoArea";
+import type { CapAlert, CapMsgType } from "./capAlerts";
+
+// Every action sent is recorded as a version of an alert. Updates and cancellations reference the
+// version they amend and share its alertId, so the whole chain can be followed from any report.
+export interface IssuedAlert {
+  reportId: string;
+  alertId: string; // The original's report id, shared by every version
+  version: number; // 1 for the original
+  msgType: CapMsgType;
+  references?: string; // Report id of the version this one amends
+  actionType: EmergencyActionType;
+  reportAction: string; // e.g. "Alert"; amendments keep the original's
+  regionName: string;
+  variables: Partial<TemplateVariables>;
+  severity?: Severity;
+  area?: TargetArea;
+  capAlert?: CapAlert;
+  exercise?: boolean; // Sent during a drill; its corrections and cancellation are drill traffic too
+  issuedAt: string;
+}
+
+type Listener = () => void;
+
+let issuedAlerts: IssuedAlert[] = [];
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const getIssuedAlerts = (): IssuedAlert[] => issuedAlerts;
+
+export const subscribeToIssuedAlerts = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getIssuedAlert = (reportId: string): IssuedAlert | undefined =>
+  issuedAlerts.find(alert => alert.reportId === reportId);
+
+// Oldest version first
+export const getAlertChain = (alertId: string, alerts = issuedAlerts): IssuedAlert[] =>
+  alerts.filter(alert => alert.alertId === alertId).sort((a, b) => a.version - b.version);
+
+// Only the latest version of an alert that hasn't been cancelled can be updated or cancelled
+export const canAmendAlert = (reportId: string, alerts = issuedAlerts): boolean => {
+  const alert = alerts.find(candidate => candidate.reportId === reportId);
+  if (!alert) return false;
+
+  const chain = getAlertChain(alert.alertId, alerts);
+  const latest = chain[chain.length - 1];
+  return latest.reportId === reportId && latest.msgType !== "Cancel";
+};
+
+export const recordIssuedAlert = (alert: IssuedAlert): IssuedAlert => {
+  issuedAlerts = [alert, ...issuedAlerts];
+  emitChange();
+  return alert;
+};
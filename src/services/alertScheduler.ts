@@ -0,0 +1,303 @@
+import type { TemplateVariables } from "./messageTemplates";
+import type { Severity } from "./routingRules";
+import type { TargetArea } from "./geoArea";
+import { getEmergencyConfig } from "./configStore";
+import { sendRegionAlert, whenNoBroadcastRunning } from "./emergencyCommunicationService";
+import { auditOperator, getCurrentOperatorId, requiresSecondApprover } from "./actionAuthorization";
+import { DeliveryReport, createDeliveryReport, summarizeDeliveryReport } from "./deliveryReport";
+import { recordAuditEntry } from "./auditLog";
+import { deleteRecord, readAllRecords, readRecord, writeRecord } from "./localDatabase";
+
+// Region alerts queued for a later time, optionally repeating every N hours until cancelled. The queue is
+// saved locally and re-armed on load. Runs missed while the dashboard was closed are caught up with a
+// single dispatch, not one per missed interval, and the next run is the first one still in the future.
+// A run found more than MISSED_AFTER_MS past due isn't sent on its own: it's recorded as missed, in the audit
+// log too. A repeating alert carries on with its next run; a one-off alert waits as missed until an operator
+// sends or discards it. Every open tab arms a timer, so runs are claimed, and operators' changes applied,
+// under a cross-tab lock and only the tab that claims a run dispatches it.
+
+export type ScheduleStatus = "scheduled" | "completed" | "cancelled" | "missed";
+
+export interface ScheduledRun {
+  ranAt: string;
+  reportId?: string;
+  sent?: number;
+  failed?: number;
+  error?: string; // Set when the run was skipped or the dispatch failed
+}
+
+export interface ScheduledAlert {
+  id: string;
+  regionName: string;
+  alertMessage: string;
+  details?: Partial<TemplateVariables>;
+  severity?: Severity;
+  area?: TargetArea;
+  nextRunAt: string | null; // null once completed, cancelled or missed
+  repeatEveryHours: number | null; // null for a one-off alert
+  status: ScheduleStatus;
+  exercise: boolean; // Scheduled during an exercise; only runs while exercise mode matches
+  createdBy: string | null; // Operator id
+  createdAt: string;
+  runs: ScheduledRun[];
+}
+
+export type ScheduledAlertInput = Pick<ScheduledAlert, "regionName" | "alertMessage" | "details" | "severity" | "area" | "repeatEveryHours"> & {
+  runAt: string;
+};
+
+type Listener = () => void;
+
+const HOUR_MS = 3_600_000;
+const MAX_TIMER_MS = HOUR_MS; // Re-check at least hourly; long timeouts overflow and drift while the machine sleeps
+const MISSED_AFTER_MS = 30 * 60_000;
+const SCHEDULER_LOCK = "sentinel-compass-scheduler";
+
+let schedule: ScheduledAlert[] = [];
+const listeners = new Set<Listener>();
+let timer: ReturnType<typeof setTimeout> | null = null;
+const claiming = new Set<string>(); // Ids of alerts waiting on the lock, left out of the timer meanwhile
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const getScheduledAlerts = (): ScheduledAlert[] => schedule;
+
+export const subscribeToScheduledAlerts = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Updates this tab's copy only; save also writes it to the local database
+const replaceLocal = (entry: ScheduledAlert) => {
+  schedule = schedule.some(existing => existing.id === entry.id)
+    ? schedule.map(existing => existing.id === entry.id ? entry : existing)
+    : [...schedule, entry];
+  emitChange();
+  armTimer();
+  return entry;
+};
+
+const save = (entry: ScheduledAlert) => {
+  writeRecord("schedule", entry.id, entry).catch(error => console.error(`Failed to save scheduled alert ${entry.id}:`, error));
+  return replaceLocal(entry);
+};
+
+// Without Web Locks, claims are only serialized within this tab
+const withSchedulerLock = <T>(claim: () => Promise<T>): Promise<T> =>
+  typeof navigator !== "undefined" && navigator.locks ? navigator.locks.request(SCHEDULER_LOCK, claim) : claim();
+
+// The first run strictly after now, stepping from the one that was due
+const followingRun = (dueAt: number, repeatEveryHours: number, now: number): number => {
+  const interval = repeatEveryHours * HOUR_MS;
+  return dueAt + (Math.floor((now - dueAt) / interval) + 1) * interval;
+};
+
+// Advances the alert past its due run, unless this or another tab already has. The saved copy is
+// re-read under the lock, and the advanced one written before the lock is released, so a slow broadcast
+// can't be picked up as due again anywhere. Resolves null when the run isn't this tab's to send.
+const claimRun = (entry: ScheduledAlert, now: number, missed: boolean): Promise<ScheduledAlert | null> =>
+  withSchedulerLock(async () => {
+    const saved = await readRecord<ScheduledAlert>("schedule", entry.id);
+    const current = saved ?? schedule.find(existing => existing.id === entry.id);
+    if (!current || current.status !== "scheduled" || current.nextRunAt !== entry.nextRunAt) {
+      if (current) replaceLocal(current);
+      return null;
+    }
+
+    const nextRunAt = current.repeatEveryHours ? new Date(followingRun(Date.parse(current.nextRunAt!), current.repeatEveryHours, now)).toISOString() : null;
+    const advanced: ScheduledAlert = { ...current, nextRunAt, status: nextRunAt ? "scheduled" : missed ? "missed" : "completed" };
+    await writeRecord("schedule", advanced.id, advanced);
+    return replaceLocal(advanced);
+  });
+
+// A run that sent nothing goes in the audit log as a region alert with no recipients
+const recordUnsentRun = (entry: ScheduledAlert, result: "missed" | "blocked" | "rejected", reason: string) => {
+  const report = createDeliveryReport("Scheduled Region Alert", entry.regionName);
+  report.completedAt = report.startedAt;
+  void recordAuditEntry(report, {
+    actionType: "alert",
+    exercise: entry.exercise,
+    requestedBy: auditOperator(entry.createdBy),
+    approvedBy: null
+  }, result, reason);
+};
+
+// Adds a run to the alert as this tab now has it
+const recordRun = (id: string, ranAt: number, run: Omit<ScheduledRun, "ranAt">) => {
+  const current = schedule.find(existing => existing.id === id);
+  if (current) save({ ...current, runs: [...current.runs, { ranAt: new Date(ranAt).toISOString(), ...run }] });
+};
+
+const exerciseMismatch = (entry: ScheduledAlert): string | null => {
+  if (entry.exercise === getEmergencyConfig().exercise.active) return null;
+  return entry.exercise ? "Skipped: scheduled during an exercise that has ended" : "Skipped: exercise mode is on";
+};
+
+// Sends a claimed run and records it; rejects when the alert couldn't be sent
+const dispatchRun = async (entry: ScheduledAlert, ranAt: number): Promise<DeliveryReport> => {
+  try {
+    await whenNoBroadcastRunning(); // Waits its turn behind a broadcast sent from the dashboard
+    const report = await sendRegionAlert(entry.regionName, entry.alertMessage, undefined, {
+      details: entry.details,
+      severity: entry.severity,
+      area: entry.area,
+      requestedBy: entry.createdBy ?? undefined
+    });
+    const { sent, failed } = summarizeDeliveryReport(report);
+    recordRun(entry.id, ranAt, { reportId: report.id, sent, failed });
+    return report;
+  } catch (error) {
+    console.error(`Scheduled alert for ${entry.regionName} failed:`, error);
+    recordRun(entry.id, ranAt, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+};
+
+const runScheduledAlert = async (entry: ScheduledAlert) => {
+  const now = Date.now();
+  const dueAt = entry.nextRunAt!;
+  const missed = now - Date.parse(dueAt) > MISSED_AFTER_MS;
+  claiming.add(entry.id);
+  const advanced = await claimRun(entry, now, missed).finally(() => {
+    claiming.delete(entry.id);
+    armTimer();
+  });
+  if (!advanced) return;
+
+  if (missed) {
+    console.warn(`Scheduled alert for ${entry.regionName} was due at ${dueAt} and is too late to send on its own`);
+    recordRun(entry.id, now, { error: `Missed: due at ${new Date(dueAt).toLocaleString()}, when no dashboard was open to send it` });
+    recordUnsentRun(entry, "missed", `Due ${dueAt}`);
+    return;
+  }
+
+  const mismatch = exerciseMismatch(entry);
+  if (mismatch) {
+    recordRun(entry.id, now, { error: mismatch });
+    recordUnsentRun(entry, "blocked", mismatch);
+    return;
+  }
+
+  await dispatchRun(advanced, now).catch(() => undefined); // Already recorded on the alert and in the audit log
+};
+
+const runDueAlerts = () => {
+  const now = Date.now();
+  schedule
+    .filter(entry => entry.status === "scheduled" && entry.nextRunAt && Date.parse(entry.nextRunAt) <= now && !claiming.has(entry.id))
+    .forEach(entry => void runScheduledAlert(entry));
+  armTimer();
+};
+
+// One timer for whichever scheduled alert is due next
+const armTimer = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+
+  const upcoming = schedule.flatMap(entry => entry.status === "scheduled" && entry.nextRunAt && !claiming.has(entry.id) ? [Date.parse(entry.nextRunAt)] : []);
+  if (upcoming.length === 0) return;
+  timer = setTimeout(runDueAlerts, Math.min(Math.max(0, Math.min(...upcoming) - Date.now()), MAX_TIMER_MS));
+};
+
+const validateInput = ({ regionName, alertMessage, repeatEveryHours, runAt }: Partial<ScheduledAlertInput>) => {
+  if (regionName !== undefined && !regionName.trim()) throw new Error("Region is required");
+  if (alertMessage !== undefined && !alertMessage.trim()) throw new Error("Alert message is required");
+  if (repeatEveryHours !== undefined && repeatEveryHours !== null && !(repeatEveryHours > 0)) {
+    throw new Error("Repeat interval must be more than zero hours");
+  }
+  if (runAt !== undefined && Number.isNaN(Date.parse(runAt))) throw new Error("Choose when the alert should be sent");
+};
+
+export const scheduleAlert = ({ runAt, ...input }: ScheduledAlertInput, config = getEmergencyConfig()): ScheduledAlert => {
+  validateInput({ runAt, ...input });
+  if (requiresSecondApprover("alert", config)) {
+    throw new Error("Region alerts need a second operator's approval, so they can't be scheduled");
+  }
+
+  return save({
+    id: crypto.randomUUID(),
+    ...input,
+    regionName: input.regionName.trim(),
+    nextRunAt: new Date(runAt).toISOString(),
+    status: "scheduled",
+    exercise: config.exercise.active,
+    createdBy: getCurrentOperatorId(),
+    createdAt: new Date().toISOString(),
+    runs: []
+  });
+};
+
+// Applies an operator's change to the saved copy under the lock, so it can't interleave with a tab claiming a
+// run: a run claimed first makes the change fail against the alert's new status instead of undoing the claim
+const changeUnderLock = (id: string, status: ScheduleStatus, change: (entry: ScheduledAlert) => ScheduledAlert): Promise<ScheduledAlert> =>
+  withSchedulerLock(async () => {
+    const saved = await readRecord<ScheduledAlert>("schedule", id);
+    const current = saved ?? schedule.find(existing => existing.id === id);
+    if (!current) throw new Error(`Unknown scheduled alert ${id}`);
+    if (current.status !== status) {
+      replaceLocal(current);
+      throw new Error(`This alert is ${current.status} and can no longer be changed`);
+    }
+
+    const changed = change(current);
+    await writeRecord("schedule", id, changed);
+    return replaceLocal(changed);
+  });
+
+export const updateScheduledAlert = (id: string, { runAt, ...changes }: Partial<ScheduledAlertInput>): Promise<ScheduledAlert> => {
+  validateInput({ runAt, ...changes });
+  return changeUnderLock(id, "scheduled", entry => ({ ...entry, ...changes, ...(runAt ? { nextRunAt: new Date(runAt).toISOString() } : {}) }));
+};
+
+export const cancelScheduledAlert = (id: string): Promise<ScheduledAlert> =>
+  changeUnderLock(id, "scheduled", entry => ({ ...entry, status: "cancelled", nextRunAt: null }));
+
+// Sends a missed one-off alert now, once an operator has decided it is still needed
+export const sendMissedAlert = async (id: string): Promise<DeliveryReport> => {
+  const entry = await changeUnderLock(id, "missed", missed => {
+    const mismatch = exerciseMismatch(missed);
+    if (mismatch) throw new Error(mismatch);
+    return { ...missed, status: "completed" };
+  });
+  return dispatchRun(entry, Date.now());
+};
+
+// Drops a missed one-off alert the operator no longer wants sent
+export const discardMissedAlert = async (id: string): Promise<ScheduledAlert> => {
+  const entry = await changeUnderLock(id, "missed", missed => ({ ...missed, status: "cancelled" }));
+  const operator = auditOperator(getCurrentOperatorId());
+  const reason = `Discarded by ${operator?.name ?? "an unidentified operator"} after it was missed`;
+  recordRun(id, Date.now(), { error: reason });
+  recordUnsentRun(entry, "rejected", reason);
+  return entry;
+};
+
+// Only finished or cancelled alerts can be removed; their runs stay in the audit log
+export const removeScheduledAlert = (id: string): void => {
+  const entry = schedule.find(existing => existing.id === id);
+  if (entry?.status === "scheduled") throw new Error("Cancel the scheduled alert before removing it");
+  if (entry?.status === "missed") throw new Error("Send or discard the missed alert before removing it");
+
+  schedule = schedule.filter(existing => existing.id !== id);
+  emitChange();
+  deleteRecord("schedule", id).catch(error => console.error(`Failed to remove scheduled alert ${id}:`, error));
+};
+
+const loadSchedule = async () => {
+  try {
+    const saved = await readAllRecords<ScheduledAlert>("schedule");
+    const savedIds = new Set(saved.map(entry => entry.id));
+    // Alerts scheduled while the saved queue was loading are kept alongside it
+    schedule = [...saved, ...schedule.filter(entry => !savedIds.has(entry.id))];
+    emitChange();
+    runDueAlerts();
+  } catch (error) {
+    console.error("Failed to load scheduled alerts:", error);
+  }
+};
+
+void loadSchedule();
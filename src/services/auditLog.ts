@@ -0,0 +1,204 @@
+import type { EmergencyActionType } from "./emergencyCommunicationService";
+import type { ChannelType } from "./notificationChannels";
+import { DeliveryReport, DeliveryStatus, summarizeDeliveryReport } from "./deliveryReport";
+import { addRecord, readAllRecords } from "./localDatabase";
+
+// Append-only record of every emergency action for after-action reviews, including those that were refused or
+// failed before anything went out, and of every decision on a two-person draft. Each entry carries the SHA-256
+// hash of its content and of the entry before it, so editing, removing or reordering any saved entry
+// breaks the chain from that point on; verifyAuditLog finds where.
+
+export interface AuditOperator {
+  id: string;
+  name: string; // As it was when the action ran; operators can be renamed or removed later
+}
+
+export interface AuditRecipient {
+  recipient: string;
+  group: string;
+  channel: ChannelType; // The last channel tried
+  address: string;
+  status: DeliveryStatus;
+  acknowledged?: boolean;
+}
+
+// "completed" and "cancelled" actions went out, fully or until stopped; the rest sent nothing
+export type AuditResult = "completed" | "cancelled" | "blocked" | "failed" | "missed" | "approved" | "rejected";
+
+export interface AuditEntry {
+  sequence: number; // 1 for the first entry, then consecutive
+  recordedAt: string;
+  reportId: string;
+  action: string; // As reported, e.g. "Evacuation" or "Alert Correction"
+  actionType: EmergencyActionType;
+  regionName: string;
+  exercise: boolean;
+  requestedBy: AuditOperator | null;
+  approvedBy: AuditOperator | null; // Second operator under the two-person rule
+  startedAt: string;
+  completedAt: string | null;
+  recipients: AuditRecipient[];
+  outcome: { total: number; sent: number; failed: number; cancelled: number };
+  result: AuditResult;
+  reason?: string; // Why it was blocked, failed, missed or rejected
+  previousHash: string;
+  hash: string;
+}
+
+export type AuditEntryInput = Pick<AuditEntry, "actionType" | "exercise" | "requestedBy" | "approvedBy">;
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: number; // Sequence of the first entry that doesn't match its hash or its predecessor
+  reason?: string;
+}
+
+type Listener = () => void;
+
+const GENESIS_HASH = "0".repeat(64);
+const MAX_APPEND_ATTEMPTS = 5;
+
+let entries: AuditEntry[] = [];
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+// Keys sorted at every level, so the hash doesn't depend on property order after a round trip through storage
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const fields = Object.entries(value).filter(([, field]) => field !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${fields.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const hashEntry = async ({ hash, ...content }: AuditEntry): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJson(content)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const loadAuditLog = async () => {
+  try {
+    const saved = await readAllRecords<AuditEntry>("auditLog");
+    entries = saved.sort((a, b) => a.sequence - b.sequence);
+    emitChange();
+  } catch (error) {
+    console.error("Failed to load the audit log:", error);
+  }
+};
+
+// Appends run one at a time, after the saved log has loaded, so each links to the one before it
+let appendQueue: Promise<unknown> = loadAuditLog();
+
+export const getAuditEntries = (): AuditEntry[] => entries;
+
+export const subscribeToAuditLog = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Records an action with its recipients and delivery outcome; resolves null if it couldn't be saved
+export const recordAuditEntry = (
+  report: DeliveryReport,
+  input: AuditEntryInput,
+  result: AuditResult = "completed",
+  reason?: string
+): Promise<AuditEntry | null> => {
+  const append = async (attempt = 1): Promise<AuditEntry> => {
+    const previous = entries[entries.length - 1];
+    const { total, sent, failed, cancelled } = summarizeDeliveryReport(report);
+    const entry: AuditEntry = {
+      sequence: (previous?.sequence ?? 0) + 1,
+      recordedAt: new Date().toISOString(),
+      reportId: report.id,
+      action: report.action,
+      regionName: report.regionName,
+      ...input,
+      startedAt: report.startedAt,
+      completedAt: report.completedAt,
+      recipients: report.deliveries.map(({ recipient, group, channel, address, status, acknowledged }) =>
+        ({ recipient, group, channel, address, status, ...(acknowledged !== undefined ? { acknowledged } : {}) })),
+      outcome: { total, sent, failed, cancelled },
+      result,
+      ...(reason ? { reason } : {}),
+      previousHash: previous?.hash ?? GENESIS_HASH,
+      hash: ""
+    };
+    entry.hash = await hashEntry(entry);
+
+    // The add runs in its own write transaction and fails if the sequence is taken, so an entry another tab
+    // appended since this one last read the log can't be overwritten. Re-read the chain head and link to it instead.
+    try {
+      await addRecord("auditLog", String(entry.sequence), entry);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === "ConstraintError") || attempt >= MAX_APPEND_ATTEMPTS) throw error;
+      await loadAuditLog();
+      return append(attempt + 1);
+    }
+    entries = [...entries, entry];
+    emitChange();
+    return entry;
+  };
+
+  const appended = appendQueue.then(() => append()).catch(error => {
+    console.error(`Failed to record ${report.action} in the audit log:`, error);
+    return null;
+  });
+  appendQueue = appended;
+  return appended;
+};
+
+export const verifyAuditLog = async (log = entries): Promise<AuditVerification> => {
+  let previousHash = GENESIS_HASH;
+  for (const [index, entry] of log.entries()) {
+    if (entry.sequence !== index + 1) return { valid: false, checked: index, brokenAt: entry.sequence, reason: `Expected entry ${index + 1}` };
+    if (entry.previousHash !== previousHash) return { valid: false, checked: index, brokenAt: entry.sequence, reason: "Does not follow the previous entry" };
+    if (await hashEntry(entry) !== entry.hash) return { valid: false, checked: index, brokenAt: entry.sequence, reason: "Content does not match its hash" };
+    previousHash = entry.hash;
+  }
+  return { valid: true, checked: log.length };
+};
+
+export const auditLogToJson = (log = entries): string => JSON.stringify(log, null, 2);
+
+const CSV_COLUMNS: [string, (entry: AuditEntry) => string | number | boolean][] = [
+  ["sequence", entry => entry.sequence],
+  ["recordedAt", entry => entry.recordedAt],
+  ["reportId", entry => entry.reportId],
+  ["action", entry => entry.action],
+  ["actionType", entry => entry.actionType],
+  ["region", entry => entry.regionName],
+  ["exercise", entry => entry.exercise],
+  ["requestedBy", entry => entry.requestedBy?.name ?? ""],
+  ["approvedBy", entry => entry.approvedBy?.name ?? ""],
+  ["startedAt", entry => entry.startedAt],
+  ["completedAt", entry => entry.completedAt ?? ""],
+  ["total", entry => entry.outcome.total],
+  ["sent", entry => entry.outcome.sent],
+  ["failed", entry => entry.outcome.failed],
+  ["cancelled", entry => entry.outcome.cancelled],
+  ["result", entry => entry.result],
+  ["reason", entry => entry.reason ?? ""],
+  ["recipients", entry => entry.recipients.map(({ recipient, channel, address, status }) => `${recipient} <${channel}:${address}> ${status}`).join("; ")],
+  ["previousHash", entry => entry.previousHash],
+  ["hash", entry => entry.hash]
+];
+
+// Text starting with = + - @ (or a tab or carriage return) is prefixed with ' so spreadsheets don't run it as a
+// formula; recipient names and reasons can come from residents signing themselves up
+const csvField = (value: string | number | boolean): string => {
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per action; recipients are joined into a single column
+export const auditLogToCsv = (log = entries): string =>
+  [CSV_COLUMNS.map(([name]) => name), ...log.map(entry => CSV_COLUMNS.map(([, value]) => csvField(value(entry))))]
+    .map(row => row.join(","))
+    .join("\r\n");
@@ -0,0 +1,211 @@
+import type { EmergencyActionType } from "./emergencyCommunicationService";
+import type { RenderedMessage } from "./messageTemplates";
+import type { Severity } from "./routingRules";
+import { GeoPolygon, isValidPolygon } from "./geoArea";
+import { gatewayOperatorHeaders, gatewayUrl } from "./notificationChannels";
+
+// Common Alerting Protocol 1.2 documents for partner systems. Each alert, evacuation and all-clear
+// produces one; they are kept for download and, with a gateway configured, published to its Atom feed.
+
+export type CapMsgType = "Alert" | "Update" | "Cancel";
+export type CapUrgency = "Immediate" | "Expected" | "Future" | "Past" | "Unknown";
+export type CapSeverity = "Extreme" | "Severe" | "Moderate" | "Minor" | "Unknown";
+export type CapCertainty = "Observed" | "Likely" | "Possible" | "Unlikely" | "Unknown";
+export type CapCategory = "Geo" | "Met" | "Safety" | "Fire" | "Other";
+export type CapResponseType = "Evacuate" | "Prepare" | "AllClear";
+
+export interface CapInfo {
+  language: string;
+  category: CapCategory;
+  event: string;
+  responseType: CapResponseType;
+  urgency: CapUrgency;
+  severity: CapSeverity;
+  certainty: CapCertainty;
+  headline: string;
+  description: string;
+  instruction?: string;
+  areaDesc: string;
+  polygon?: GeoPolygon;
+}
+
+export interface CapAlert {
+  identifier: string;
+  sender: string;
+  sent: string; // CAP date-time, e.g. "2024-05-01T14:20:00+00:00"
+  status: "Actual" | "Exercise";
+  msgType: CapMsgType;
+  scope: "Public";
+  references?: string[]; // "sender,identifier,sent" of earlier messages this one updates or cancels
+  info: CapInfo;
+}
+
+export interface PublishedCapAlert {
+  alert: CapAlert;
+  xml: string;
+  reportId: string;
+}
+
+export interface CapAlertInput {
+  region: string;
+  disasterType?: string;
+  severity?: Severity;
+  area?: GeoPolygon;
+  message: RenderedMessage; // English rendering; CAP consumers translate for themselves
+  instructions?: string;
+  exercise?: boolean;
+}
+
+interface CapActionProfile {
+  event: string;
+  responseType: CapResponseType;
+  urgency: CapUrgency;
+  certainty: CapCertainty;
+}
+
+type Listener = () => void;
+
+export const CAP_SENDER = "alerts@sentinel-compass.local";
+const CAP_NAMESPACE = "urn:oasis:names:tc:emergency:cap:1.2";
+
+// Resource requests go to responders only, so they have no public CAP document
+const CAP_ACTION_PROFILES: Partial<Record<EmergencyActionType, CapActionProfile>> = {
+  evacuation: { event: "Evacuation", responseType: "Evacuate", urgency: "Immediate", certainty: "Observed" },
+  alert: { event: "Emergency Alert", responseType: "Prepare", urgency: "Expected", certainty: "Likely" },
+  allClear: { event: "All Clear", responseType: "AllClear", urgency: "Past", certainty: "Observed" }
+};
+
+const CAP_SEVERITIES: Record<Severity, CapSeverity> = {
+  low: "Minor",
+  medium: "Moderate",
+  high: "Severe",
+  critical: "Extreme"
+};
+
+const CAP_CATEGORIES: Record<string, CapCategory> = {
+  flood: "Met",
+  hurricane: "Met",
+  fire: "Fire",
+  earthquake: "Geo"
+};
+
+let published: PublishedCapAlert[] = [];
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const hasCapProfile = (actionType: EmergencyActionType): boolean => actionType in CAP_ACTION_PROFILES;
+
+// CAP forbids fractional seconds and the "Z" designator
+export const formatCapDate = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, "+00:00");
+
+export const createCapAlert = (
+  actionType: EmergencyActionType,
+  input: CapAlertInput,
+  msgType: CapMsgType = "Alert",
+  references?: CapAlert[]
+): CapAlert | null => {
+  const profile = CAP_ACTION_PROFILES[actionType];
+  if (!profile) return null;
+
+  const { region, disasterType, severity, area, message, instructions, exercise } = input;
+  return {
+    identifier: `sentinel-${crypto.randomUUID()}`,
+    sender: CAP_SENDER,
+    sent: formatCapDate(new Date()),
+    status: exercise ? "Exercise" : "Actual",
+    msgType,
+    scope: "Public",
+    ...(references?.length ? { references: references.map(ref => `${ref.sender},${ref.identifier},${ref.sent}`) } : {}),
+    info: {
+      language: "en-US",
+      category: (disasterType && CAP_CATEGORIES[disasterType]) || "Safety",
+      event: profile.event,
+      responseType: profile.responseType,
+      urgency: profile.urgency,
+      severity: severity ? CAP_SEVERITIES[severity] : "Unknown",
+      certainty: profile.certainty,
+      headline: message.emailSubject,
+      description: message.email,
+      ...(instructions ? { instruction: instructions } : {}),
+      areaDesc: region,
+      ...(area && isValidPolygon(area) ? { polygon: area } : {})
+    }
+  };
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+// "lat,lon" pairs separated by spaces, with the first point repeated to close the ring
+const formatCapPolygon = (polygon: GeoPolygon): string =>
+  [...polygon, polygon[0]].map(({ latitude, longitude }) => `${latitude.toFixed(6)},${longitude.toFixed(6)}`).join(" ");
+
+export const toCapXml = (alert: CapAlert): string => {
+  const element = (name: string, value: string | undefined, indent: string) =>
+    value === undefined ? [] : [`${indent}<${name}>${escapeXml(value)}</${name}>`];
+  const { info } = alert;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<alert xmlns="${CAP_NAMESPACE}">`,
+    ...element("identifier", alert.identifier, "  "),
+    ...element("sender", alert.sender, "  "),
+    ...element("sent", alert.sent, "  "),
+    ...element("status", alert.status, "  "),
+    ...element("msgType", alert.msgType, "  "),
+    ...element("scope", alert.scope, "  "),
+    ...element("references", alert.references?.join(" "), "  "),
+    "  <info>",
+    ...element("language", info.language, "    "),
+    ...element("category", info.category, "    "),
+    ...element("event", info.event, "    "),
+    ...element("responseType", info.responseType, "    "),
+    ...element("urgency", info.urgency, "    "),
+    ...element("severity", info.severity, "    "),
+    ...element("certainty", info.certainty, "    "),
+    ...element("headline", info.headline, "    "),
+    ...element("description", info.description, "    "),
+    ...element("instruction", info.instruction, "    "),
+    "    <area>",
+    ...element("areaDesc", info.areaDesc, "      "),
+    ...element("polygon", info.polygon && formatCapPolygon(info.polygon), "      "),
+    "    </area>",
+    "  </info>",
+    "</alert>",
+    ""
+  ].join("\n");
+};
+
+export const getPublishedCapAlerts = (): PublishedCapAlert[] => published;
+
+export const subscribeToCapAlerts = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Keeps the document for download and hands it to the gateway's Atom feed when one is configured.
+// Exercise alerts stay off the feed. A feed failure is logged rather than thrown; the alert itself has already gone out.
+export const publishCapAlert = async (alert: CapAlert, reportId: string): Promise<PublishedCapAlert> => {
+  const entry: PublishedCapAlert = { alert, xml: toCapXml(alert), reportId };
+  published = [entry, ...published];
+  emitChange();
+
+  if (gatewayUrl && alert.status === "Actual") {
+    try {
+      const response = await fetch(`${gatewayUrl}/cap`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...gatewayOperatorHeaders },
+        body: JSON.stringify({ xml: entry.xml })
+      });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    } catch (error) {
+      console.error(`Failed to publish CAP alert ${alert.identifier} to the feed:`, error);
+    }
+  }
+  return entry;
+};
@@ -0,0 +1,402 @@
+import type { ContactInfo, EmergencyConfig, EmergencyTeam } from "./emergencyCommunicationService";
+import { readRecord, writeRecord } from "./localDatabase";
+import { normalizePhoneNumber } from "./phoneNumbers";
+import type { Device } from "./deviceRegistry";
+
+type Listener = () => void;
+
+interface PersistedConfig {
+  version: number;
+  config: EmergencyConfig;
+}
+
+// Bump when EmergencyConfig changes shape. Saved configs are upgraded through CONFIG_MIGRATIONS where a
+// migration exists; anything older is ignored in favour of the defaults.
+const CONFIG_VERSION = 9;
+const CONFIG_KEY = "emergency";
+
+// Seed configuration used until the operator changes it; in a real app, this would come from a backend system
+export const DEFAULT_EMERGENCY_CONFIG: EmergencyConfig = {
+  teams: {
+    evacuation: {
+      teamName: "Evacuation Response",
+      teamHead: {
+        name: "Sarah Johnson",
+        role: "Evacuation Director",
+        phoneNumber: "+15551234567",
+        email: "sjohnson@emergency.org"
+      },
+      members: [
+        {
+          name: "Mike Roberts",
+          role: "Field Coordinator",
+          phoneNumber: "+15552345678",
+          email: "mroberts@emergency.org"
+        },
+        {
+          name: "Lisa Chen",
+          role: "Transportation Lead",
+          phoneNumber: "+15553456789",
+          email: "lchen@emergency.org"
+        }
+      ],
+      escalationChain: [
+        {
+          name: "James Okafor",
+          role: "Deputy Evacuation Director",
+          phoneNumber: "+15551201001",
+          email: "jokafor@emergency.org"
+        },
+        {
+          name: "Helen Park",
+          role: "Regional Emergency Manager",
+          phoneNumber: "+15551201002",
+          email: "hpark@emergency.org"
+        }
+      ]
+    },
+    alert: {
+      teamName: "Public Alert System",
+      teamHead: {
+        name: "David Williams",
+        role: "Alert System Director",
+        phoneNumber: "+15554567890",
+        email: "dwilliams@emergency.org"
+      },
+      members: [
+        {
+          name: "Carlos Rodriguez",
+          role: "Communications Specialist",
+          phoneNumber: "+15555678901",
+          email: "crodriguez@emergency.org",
+          locale: "es"
+        },
+        {
+          name: "Aisha Patel",
+          role: "Media Relations",
+          phoneNumber: "+15556789012",
+          email: "apatel@emergency.org"
+        }
+      ],
+      escalationChain: [
+        {
+          name: "Priya Nair",
+          role: "Deputy Alert System Director",
+          phoneNumber: "+15551202001",
+          email: "pnair@emergency.org"
+        },
+        {
+          name: "Helen Park",
+          role: "Regional Emergency Manager",
+          phoneNumber: "+15551201002",
+          email: "hpark@emergency.org"
+        }
+      ]
+    },
+    resources: {
+      teamName: "Resource Management",
+      teamHead: {
+        name: "Robert Kim",
+        role: "Resource Director",
+        phoneNumber: "+15557890123",
+        email: "rkim@emergency.org"
+      },
+      members: [
+        {
+          name: "Jane Martinez",
+          role: "Supply Chain Manager",
+          phoneNumber: "+15558901234",
+          email: "jmartinez@emergency.org"
+        },
+        {
+          name: "Sam Taylor",
+          role: "Equipment Coordinator",
+          phoneNumber: "+15559012345",
+          email: "staylor@emergency.org"
+        }
+      ],
+      escalationChain: [
+        {
+          name: "Omar Haddad",
+          role: "Deputy Resource Director",
+          phoneNumber: "+15551203001",
+          email: "ohaddad@emergency.org"
+        }
+      ]
+    },
+    allClear: {
+      teamName: "All Clear Operations",
+      teamHead: {
+        name: "Emma Wilson",
+        role: "Operations Director",
+        phoneNumber: "+15550123456",
+        email: "ewilson@emergency.org"
+      },
+      members: [
+        {
+          name: "Thomas Brown",
+          role: "Safety Inspector",
+          phoneNumber: "+15551234567",
+          email: "tbrown@emergency.org"
+        },
+        {
+          name: "Nina Garcia",
+          role: "Community Liaison",
+          phoneNumber: "+15552345678",
+          email: "ngarcia@emergency.org",
+          locale: "es"
+        }
+      ],
+      escalationChain: [
+        {
+          name: "Grace Liu",
+          role: "Deputy Operations Director",
+          phoneNumber: "+15551204001",
+          email: "gliu@emergency.org"
+        },
+        {
+          name: "Helen Park",
+          role: "Regional Emergency Manager",
+          phoneNumber: "+15551201002",
+          email: "hpark@emergency.org"
+        }
+      ]
+    }
+  },
+  actionRecipients: {
+    evacuation: { teams: ["evacuation"], tags: [], regionDevices: false },
+    alert: { teams: ["alert"], tags: [], regionDevices: true },
+    resources: { teams: ["resources"], tags: [], regionDevices: false },
+    allClear: { teams: ["allClear"], tags: [], regionDevices: true }
+  },
+  routingRules: [
+    {
+      id: "wildfire-alert-evacuation",
+      name: "Severe wildfire alerts also reach evacuation",
+      enabled: true,
+      actionTypes: ["alert"],
+      disasterTypes: ["fire"],
+      minSeverity: "high",
+      regions: [],
+      recipients: { teams: ["evacuation"], tags: [], regionDevices: false }
+    },
+    {
+      id: "critical-evacuation-devices",
+      name: "Critical evacuations broadcast to region devices",
+      enabled: true,
+      actionTypes: ["evacuation"],
+      disasterTypes: [],
+      minSeverity: "critical",
+      regions: [],
+      recipients: { teams: [], tags: [], regionDevices: true }
+    }
+  ],
+  devices: [
+    {
+      id: "device-maria-phone",
+      owner: "Maria Lopez",
+      channel: "sms",
+      phoneNumber: "+15551112222",
+      regions: ["Downtown Metro Area"],
+      location: { latitude: 29.7604, longitude: -95.3698 },
+      locale: "es",
+      lastSeenAt: "2024-05-01T14:20:00.000Z",
+      optedIn: true
+    },
+    {
+      id: "device-linh-phone",
+      owner: "Linh Tran",
+      channel: "sms",
+      phoneNumber: "+15553334444",
+      regions: ["Downtown Metro Area", "Houston"],
+      location: { latitude: 29.7355, longitude: -95.3145 },
+      locale: "vi",
+      lastSeenAt: "2024-05-02T09:05:00.000Z",
+      optedIn: true
+    },
+    {
+      id: "device-ops-laptop",
+      owner: "Operations Laptop",
+      channel: "push",
+      pushToken: "laptop-id-12345",
+      regions: ["Downtown Metro Area"],
+      location: { latitude: 34.0522, longitude: -118.2437 },
+      lastSeenAt: null,
+      optedIn: true
+    }
+  ],
+  defaultFallbackChain: ["push", "sms", "email"],
+  acknowledgementTimeoutMs: 0,
+  smsSegmentBudget: 2,
+  templateOverrides: {},
+  escalationPolicies: {
+    evacuation: { enabled: true, ackTimeoutMinutes: 5 },
+    alert: { enabled: true, ackTimeoutMinutes: 10 },
+    resources: { enabled: false, ackTimeoutMinutes: 30 },
+    allClear: { enabled: true, ackTimeoutMinutes: 15 }
+  },
+  authorization: {
+    twoPersonActions: ["evacuation", "allClear"],
+    draftExpiryMinutes: 15,
+    operators: [
+      { id: "operator-morgan", name: "Alex Morgan", canApprove: true },
+      { id: "operator-okafor", name: "Chidi Okafor", canApprove: true },
+      { id: "operator-reyes", name: "Dana Reyes", canApprove: false }
+    ]
+  },
+  exercise: {
+    active: false,
+    target: "localSink",
+    drillRecipients: [
+      { name: "Drill Controller", role: "Exercise Controller", phoneNumber: "+15550001000", email: "drills@sentinel-compass.local" }
+    ]
+  }
+};
+
+// Snapshots are frozen all the way down, so a change always goes through updateEmergencyConfig
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+const normalizeContact = (contact: ContactInfo): ContactInfo =>
+  ({ ...contact, phoneNumber: normalizePhoneNumber(contact.phoneNumber) ?? contact.phoneNumber });
+
+const normalizeTeam = (team: EmergencyTeam): EmergencyTeam => ({
+  ...team,
+  teamHead: normalizeContact(team.teamHead),
+  members: team.members.map(normalizeContact),
+  escalationChain: team.escalationChain?.map(normalizeContact)
+});
+
+// Before version 5, region devices were bare addresses with no owner or region membership
+interface LegacyRegionDevice {
+  address: string;
+  locale?: string;
+}
+
+// Before version 2, each action had a fixed team field instead of a keyed team and its recipients
+interface LegacyTeams {
+  evacuationTeam?: EmergencyTeam;
+  alertTeam?: EmergencyTeam;
+  resourcesTeam?: EmergencyTeam;
+  allClearTeam?: EmergencyTeam;
+}
+
+type SavedConfig = Omit<EmergencyConfig, "devices"> & LegacyTeams & { devices?: Device[]; regionDevices?: LegacyRegionDevice[] };
+
+const fromLegacyDevice = ({ address, locale }: LegacyRegionDevice, index: number): Device => ({
+  id: `legacy-device-${index + 1}`,
+  owner: "Unassigned",
+  channel: address.startsWith("+") ? "sms" : "push",
+  ...(address.startsWith("+") ? { phoneNumber: address } : { pushToken: address }),
+  regions: [], // Unknown, so migrated devices receive nothing until the operator assigns a region
+  ...(locale ? { locale } : {}),
+  lastSeenAt: null,
+  optedIn: true
+});
+
+// Keyed by the version a migration upgrades from
+const CONFIG_MIGRATIONS: Record<number, (saved: SavedConfig) => SavedConfig> = {
+  // Version 2 keys teams by id, and each action lists the teams it notifies
+  1: ({ evacuationTeam, alertTeam, resourcesTeam, allClearTeam, ...saved }) => ({
+    ...saved,
+    teams: {
+      evacuation: evacuationTeam ?? DEFAULT_EMERGENCY_CONFIG.teams.evacuation,
+      alert: alertTeam ?? DEFAULT_EMERGENCY_CONFIG.teams.alert,
+      resources: resourcesTeam ?? DEFAULT_EMERGENCY_CONFIG.teams.resources,
+      allClear: allClearTeam ?? DEFAULT_EMERGENCY_CONFIG.teams.allClear
+    },
+    actionRecipients: DEFAULT_EMERGENCY_CONFIG.actionRecipients // Each action notifies the team that used to be its field
+  }),
+  // Version 3 adds routing rules; saved configs start with none so routing doesn't change under them
+  2: saved => ({ ...saved, routingRules: [] }),
+  // Version 4 stores phone numbers in E.164 form
+  3: saved => ({
+    ...saved,
+    teams: Object.fromEntries(Object.entries(saved.teams).map(([teamId, team]) => [teamId, normalizeTeam(team)])),
+    regionDevices: saved.regionDevices.map(device => ({ ...device, address: normalizePhoneNumber(device.address) ?? device.address }))
+  }),
+  // Version 5 replaces the region device addresses with the typed device registry
+  4: ({ regionDevices = [], ...saved }) => ({ ...saved, devices: regionDevices.map(fromLegacyDevice) }),
+  // Version 6 adds the two-person rule, starting from the default operators and policy
+  5: saved => ({ ...saved, authorization: DEFAULT_EMERGENCY_CONFIG.authorization }),
+  // Version 7 adds exercise mode, switched off
+  6: saved => ({ ...saved, exercise: DEFAULT_EMERGENCY_CONFIG.exercise }),
+  // Version 8 adds the SMS segment budget
+  7: saved => ({ ...saved, smsSegmentBudget: DEFAULT_EMERGENCY_CONFIG.smsSegmentBudget }),
+  // Version 9 saves template edits, which were previously lost on reload
+  8: saved => ({ ...saved, templateOverrides: {} })
+};
+
+const migrate = (saved: PersistedConfig): EmergencyConfig | null => {
+  let version = saved.version;
+  let migrated: SavedConfig = saved.config;
+  while (version < CONFIG_VERSION) {
+    const migration = CONFIG_MIGRATIONS[version];
+    if (!migration) return null;
+    migrated = migration(migrated);
+    version++;
+  }
+  return version === CONFIG_VERSION ? migrated as EmergencyConfig : null;
+};
+
+let config: EmergencyConfig = deepFreeze(DEFAULT_EMERGENCY_CONFIG);
+let changedBeforeLoad = false;
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+const persist = async (snapshot: EmergencyConfig) => {
+  try {
+    await writeRecord<PersistedConfig>("config", CONFIG_KEY, { version: CONFIG_VERSION, config: snapshot });
+  } catch (error) {
+    console.error("Failed to save emergency configuration:", error);
+  }
+};
+
+export const getEmergencyConfig = (): EmergencyConfig => config;
+
+export const subscribeToEmergencyConfig = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Applies a change to the current snapshot, publishes the result and saves it
+export const updateEmergencyConfig = (update: (current: EmergencyConfig) => EmergencyConfig): EmergencyConfig => {
+  config = deepFreeze(update(config));
+  changedBeforeLoad = true;
+  emitChange();
+  void persist(config);
+  return config;
+};
+
+export const resetEmergencyConfig = (): EmergencyConfig => updateEmergencyConfig(() => DEFAULT_EMERGENCY_CONFIG);
+
+const loadEmergencyConfig = async () => {
+  try {
+    const saved = await readRecord<PersistedConfig>("config", CONFIG_KEY);
+    // Edits made while the saved copy was loading win; they have already been written back
+    if (!saved || changedBeforeLoad) return;
+    const migrated = migrate(saved);
+    if (!migrated) {
+      console.warn(`Ignoring saved emergency configuration from version ${saved.version}`);
+      return;
+    }
+
+    config = deepFreeze(migrated);
+    emitChange();
+    if (saved.version !== CONFIG_VERSION) void persist(config);
+  } catch (error) {
+    console.error("Failed to load emergency configuration:", error);
+  }
+};
+
+void loadEmergencyConfig();
@@ -0,0 +1,141 @@
+import * as z from "zod";
+import type { ActionRecipients, ContactInfo, EmergencyActionType, EmergencyConfig, EmergencyTeam } from "./emergencyCommunicationService";
+import { updateEmergencyConfig } from "./configStore";
+import { LOCALE_LABELS } from "./messageTemplates";
+import { normalizePhoneNumber } from "./phoneNumbers";
+
+// A head is addressed by position alone; members by their index in the team
+export type ContactRef = { position: "head" } | { position: "member"; index: number };
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  role: z.string().trim().min(1, "Role is required"),
+  phoneNumber: z.string().transform((value, ctx) => {
+    const normalized = normalizePhoneNumber(value);
+    if (!normalized) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Enter a phone number with country code, e.g. +1 555 123 4567" });
+      return z.NEVER;
+    }
+    return normalized;
+  }),
+  email: z.string().trim().email("Enter a valid email address"),
+  locale: z.enum(Object.keys(LOCALE_LABELS) as [string, ...string[]]).optional(),
+  tags: z.string().optional() // Comma-separated, e.g. "medical, triage"
+});
+
+export type ContactFormValues = z.infer<typeof contactSchema>;
+
+export const teamSchema = z.object({
+  teamName: z.string().trim().min(1, "Team name is required"),
+  head: contactSchema
+});
+
+export type TeamFormValues = z.infer<typeof teamSchema>;
+
+export const parseTags = (text = ""): string[] =>
+  Array.from(new Set(text.split(",").map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export interface TeamContact {
+  ref: ContactRef;
+  contact: ContactInfo;
+}
+
+export const getTeamContacts = (team: EmergencyTeam): TeamContact[] => [
+  { ref: { position: "head" }, contact: team.teamHead },
+  ...team.members.map((contact, index): TeamContact => ({ ref: { position: "member", index }, contact }))
+];
+
+const getContact = (team: EmergencyTeam, ref: ContactRef): ContactInfo => {
+  const contact = ref.position === "head" ? team.teamHead : team.members[ref.index];
+  if (!contact) throw new Error(`No such contact in ${team.teamName}`);
+  return contact;
+};
+
+// Keeps fields the form doesn't edit, such as the push token and fallback chain
+const applyValues = (contact: Partial<ContactInfo>, values: ContactFormValues): ContactInfo => {
+  const { locale, tags, ...rest } = contactSchema.parse(values);
+  const updated = { ...contact, ...rest } as ContactInfo;
+  if (locale) updated.locale = locale;
+  else delete updated.locale;
+  const parsedTags = parseTags(tags);
+  if (parsedTags.length > 0) updated.tags = parsedTags;
+  else delete updated.tags;
+  return updated;
+};
+
+const updateTeam = (teamId: string, update: (team: EmergencyTeam) => EmergencyTeam): EmergencyConfig =>
+  updateEmergencyConfig(config => {
+    const team = config.teams[teamId];
+    if (!team) throw new Error(`Unknown team "${teamId}"`);
+    return { ...config, teams: { ...config.teams, [teamId]: update(team) } };
+  });
+
+// Team keys are slugs of the name, e.g. "Public Works" becomes "public-works"
+const teamIdFor = (teamName: string, teams: Record<string, EmergencyTeam>): string => {
+  const base = teamName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "team";
+  let teamId = base;
+  for (let suffix = 2; teams[teamId]; suffix++) teamId = `${base}-${suffix}`;
+  return teamId;
+};
+
+export const createTeam = (values: TeamFormValues): string => {
+  const { teamName } = teamSchema.parse(values);
+  let teamId = "";
+  updateEmergencyConfig(config => {
+    teamId = teamIdFor(teamName, config.teams);
+    return { ...config, teams: { ...config.teams, [teamId]: { teamName, teamHead: applyValues({}, values.head), members: [] } } };
+  });
+  return teamId;
+};
+
+// Also stops every action and routing rule from notifying the team
+export const removeTeam = (teamId: string): EmergencyConfig =>
+  updateEmergencyConfig(config => {
+    if (!config.teams[teamId]) throw new Error(`Unknown team "${teamId}"`);
+    const teams = { ...config.teams };
+    delete teams[teamId];
+    const actionRecipients = Object.fromEntries(
+      Object.entries(config.actionRecipients).map(([actionType, recipients]) =>
+        [actionType, { ...recipients, teams: recipients.teams.filter(id => id !== teamId) }])
+    ) as Record<EmergencyActionType, ActionRecipients>;
+    const routingRules = config.routingRules.map(rule =>
+      ({ ...rule, recipients: { ...rule.recipients, teams: rule.recipients.teams.filter(id => id !== teamId) } }));
+    return { ...config, teams, actionRecipients, routingRules };
+  });
+
+export const setActionRecipients = (actionType: EmergencyActionType, recipients: ActionRecipients): EmergencyConfig =>
+  updateEmergencyConfig(config => {
+    const unknownTeam = recipients.teams.find(teamId => !config.teams[teamId]);
+    if (unknownTeam) throw new Error(`Unknown team "${unknownTeam}"`);
+    return { ...config, actionRecipients: { ...config.actionRecipients, [actionType]: recipients } };
+  });
+
+export const addContact = (teamId: string, values: ContactFormValues): EmergencyConfig =>
+  updateTeam(teamId, team => ({ ...team, members: [...team.members, applyValues({}, values)] }));
+
+export const updateContact = (teamId: string, ref: ContactRef, values: ContactFormValues): EmergencyConfig =>
+  updateTeam(teamId, team => {
+    const contact = applyValues(getContact(team, ref), values);
+    return ref.position === "head"
+      ? { ...team, teamHead: contact }
+      : { ...team, members: team.members.map((member, index) => index === ref.index ? contact : member) };
+  });
+
+// The head can't be removed directly; promote a member first so the team always has someone in charge
+export const removeContact = (teamId: string, ref: ContactRef): EmergencyConfig =>
+  updateTeam(teamId, team => {
+    if (ref.position === "head") throw new Error(`Promote another member before removing the head of ${team.teamName}`);
+    getContact(team, ref);
+    return { ...team, members: team.members.filter((_, index) => index !== ref.index) };
+  });
+
+// The previous head stays on the team as a member
+export const promoteToHead = (teamId: string, memberIndex: number): EmergencyConfig =>
+  updateTeam(teamId, team => {
+    const member = getContact(team, { position: "member", index: memberIndex });
+    return {
+      ...team,
+      teamHead: member,
+      members: team.members.map((existing, index) => index === memberIndex ? team.teamHead : existing)
+    };
+  });
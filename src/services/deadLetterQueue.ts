@@ -0,0 +1,50 @@
+import type { MessageSender, OutboundMessage } from "./dispatchEngine";
+
+// Messages that still failed after their retry policy ran out. Operators can
+// inspect them and re-drive them manually.
+export interface DeadLetter {
+  id: string;
+  reportId: string;
+  action: string;
+  message: OutboundMessage;
+  attempts: number;
+  lastError: string;
+  failedAt: string;
+  send?: MessageSender; // The sender the original dispatch used, e.g. the exercise sink; re-sends go through it too
+}
+
+type Listener = () => void;
+
+let deadLetters: DeadLetter[] = [];
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const getDeadLetters = (): DeadLetter[] => deadLetters;
+
+export const addDeadLetter = (deadLetter: Omit<DeadLetter, "id">): DeadLetter => {
+  const entry: DeadLetter = { id: crypto.randomUUID(), ...deadLetter };
+  deadLetters = [entry, ...deadLetters];
+  console.warn(`Dead-lettered ${entry.message.channel} to ${entry.message.address} after ${entry.attempts} attempts: ${entry.lastError}`);
+  emitChange();
+  return entry;
+};
+
+export const updateDeadLetter = (id: string, changes: Partial<Omit<DeadLetter, "id">>): void => {
+  deadLetters = deadLetters.map(entry => entry.id === id ? { ...entry, ...changes } : entry);
+  emitChange();
+};
+
+export const removeDeadLetter = (id: string): void => {
+  deadLetters = deadLetters.filter(entry => entry.id !== id);
+  emitChange();
+};
+
+export const subscribeToDeadLetters = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,68 @@
+import { ChannelType } from "./notificationChannels";
+
+export type DeliveryStatus = "sent" | "failed" | "cancelled";
+
+export interface DeliveryResult {
+  recipient: string;
+  group: string; // e.g. "Team Lead", "Team Members", "Region Devices"
+  channel: ChannelType; // The last channel tried for this recipient
+  address: string;
+  status: DeliveryStatus;
+  error?: string;
+  attempts: number;
+  latencyMs: number; // Includes time spent waiting between retries and for acknowledgements
+  fallbackChannels?: ChannelType[]; // Channels tried before the final one
+  acknowledged?: boolean;
+}
+
+export interface DeliveryReport {
+  id: string;
+  action: string;
+  regionName: string;
+  startedAt: string;
+  completedAt: string | null;
+  deliveries: DeliveryResult[];
+}
+
+export interface DeliveryGroupSummary {
+  group: string;
+  sent: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface DeliverySummary {
+  sent: number;
+  failed: number;
+  cancelled: number;
+  total: number;
+  groups: DeliveryGroupSummary[];
+}
+
+export const createDeliveryReport = (action: string, regionName: string): DeliveryReport => ({
+  id: crypto.randomUUID(),
+  action,
+  regionName,
+  startedAt: new Date().toISOString(),
+  completedAt: null,
+  deliveries: []
+});
+
+export const summarizeDeliveryReport = (report: DeliveryReport): DeliverySummary => {
+  const groups = new Map<string, DeliveryGroupSummary>();
+
+  for (const delivery of report.deliveries) {
+    const summary = groups.get(delivery.group) ?? { group: delivery.group, sent: 0, failed: 0, cancelled: 0 };
+    summary[delivery.status] += 1;
+    groups.set(delivery.group, summary);
+  }
+
+  const countByStatus = (status: DeliveryStatus) => report.deliveries.filter(delivery => delivery.status === status).length;
+  return {
+    sent: countByStatus("sent"),
+    failed: countByStatus("failed"),
+    cancelled: countByStatus("cancelled"),
+    total: report.deliveries.length,
+    groups: Array.from(groups.values())
+  };
+};
@@ -0,0 +1,147 @@
+import * as z from "zod";
+import type { EmergencyConfig } from "./emergencyCommunicationService";
+import { getEmergencyConfig, updateEmergencyConfig } from "./configStore";
+import { normalizePhoneNumber } from "./phoneNumbers";
+import { LOCALE_LABELS } from "./messageTemplates";
+import { GeoPoint, GeoPolygon, formatGeoPoint, isPointInPolygon, parseGeoPoint } from "./geoArea";
+
+export type DeviceChannel = "sms" | "push";
+
+export interface Device {
+  id: string;
+  owner: string;
+  channel: DeviceChannel;
+  phoneNumber?: string; // E.164; set for SMS devices
+  pushToken?: string; // Set for push devices
+  regions: string[]; // Region broadcasts only reach devices registered to that region
+  location?: GeoPoint; // Registered location; broadcasts to a drawn area only reach devices inside it
+  locale?: string;
+  lastSeenAt: string | null;
+  optedIn: boolean; // Opted-out devices stay registered but receive nothing
+}
+
+export const deviceSchema = z.object({
+  owner: z.string().trim().min(1, "Owner is required"),
+  channel: z.enum(["sms", "push"]),
+  address: z.string().trim().min(1, "Enter a phone number or push token"),
+  regions: z.string().trim().min(1, "Register the device to at least one region"), // Comma-separated
+  location: z.string().trim().refine(text => !text || parseGeoPoint(text) !== null, "Enter latitude, longitude, e.g. 29.7604, -95.3698"),
+  locale: z.enum(Object.keys(LOCALE_LABELS) as [string, ...string[]]).optional(),
+  optedIn: z.boolean()
+}).superRefine((values, ctx) => {
+  if (values.channel === "sms" && !normalizePhoneNumber(values.address)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["address"], message: "Enter a phone number with country code, e.g. +1 555 123 4567" });
+  }
+});
+
+export type DeviceFormValues = z.infer<typeof deviceSchema>;
+
+export const deviceAddress = (device: Device): string =>
+  (device.channel === "sms" ? device.phoneNumber : device.pushToken) ?? "";
+
+const sameRegion = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const isRegisteredToRegion = (device: Device, region: string): boolean =>
+  device.regions.some(candidate => sameRegion(candidate, region));
+
+// Opted-in devices registered to the region
+export const getRegionDevices = (devices: Device[], region: string): Device[] =>
+  devices.filter(device => device.optedIn && isRegisteredToRegion(device, region));
+
+// Opted-in devices registered to the region that area broadcasts can't place, so they leave them out
+export const getUnlocatedRegionDevices = (devices: Device[], region: string): Device[] =>
+  getRegionDevices(devices, region).filter(device => !device.location);
+
+// Opted-in devices whose registered location falls inside the area; devices without a location are left out
+export const getDevicesInArea = (devices: Device[], area: GeoPolygon): Device[] =>
+  devices.filter(device => device.optedIn && device.location && isPointInPolygon(device.location, area));
+
+const parseRegions = (text: string): string[] =>
+  text.split(",").map(region => region.trim()).filter((region, index, regions) =>
+    region && regions.findIndex(other => sameRegion(other, region)) === index);
+
+const fromFormValues = (values: DeviceFormValues): Omit<Device, "id" | "lastSeenAt"> => {
+  const { owner, channel, address, regions, location, locale, optedIn } = deviceSchema.parse(values);
+  return {
+    owner,
+    channel,
+    ...(channel === "sms" ? { phoneNumber: normalizePhoneNumber(address)! } : { pushToken: address }),
+    regions: parseRegions(regions),
+    ...(location ? { location: parseGeoPoint(location)! } : {}),
+    ...(locale ? { locale } : {}),
+    optedIn
+  };
+};
+
+export const toDeviceFormValues = (device: Device): DeviceFormValues => ({
+  owner: device.owner,
+  channel: device.channel,
+  address: deviceAddress(device),
+  regions: device.regions.join(", "),
+  location: device.location ? formatGeoPoint(device.location) : "",
+  locale: device.locale,
+  optedIn: device.optedIn
+});
+
+const updateDevices = (update: (devices: Device[]) => Device[]): EmergencyConfig =>
+  updateEmergencyConfig(config => ({ ...config, devices: update(config.devices) }));
+
+export const registerDevice = (values: DeviceFormValues): Device => {
+  const device: Device = { ...fromFormValues(values), id: crypto.randomUUID(), lastSeenAt: new Date().toISOString() };
+  updateDevices(devices => {
+    if (devices.some(existing => existing.channel === device.channel && deviceAddress(existing) === deviceAddress(device))) {
+      throw new Error(`${deviceAddress(device)} is already registered`);
+    }
+    return [...devices, device];
+  });
+  return device;
+};
+
+// Keeps the id and last-seen time
+export const updateDevice = (id: string, values: DeviceFormValues): EmergencyConfig =>
+  updateDevices(devices => devices.map(device => device.id === id ? { id, lastSeenAt: device.lastSeenAt, ...fromFormValues(values) } : device));
+
+export const setDeviceOptIn = (id: string, optedIn: boolean): EmergencyConfig =>
+  updateDevices(devices => devices.map(device => device.id === id ? { ...device, optedIn } : device));
+
+export const markDeviceSeen = (id: string, at = new Date().toISOString()): EmergencyConfig =>
+  updateDevices(devices => devices.map(device => device.id === id ? { ...device, lastSeenAt: at } : device));
+
+export const removeDevice = (id: string): EmergencyConfig =>
+  updateDevices(devices => devices.filter(device => device.id !== id));
+
+// Every region some device is registered to, for residents choosing where to get alerts
+export const getKnownRegions = (devices: Device[]): string[] =>
+  parseRegions(devices.flatMap(device => device.regions).join(",")).sort((a, b) => a.localeCompare(b));
+
+// Adds the regions to an existing SMS device with this number and opts it back in, or registers a new one.
+// Only for numbers whose owner has proven they hold them, e.g. with a one-time code.
+export const registerVerifiedPhone = (phoneNumber: string, regions: string[], owner: string, locale?: string, location?: GeoPoint): Device => {
+  const normalized = normalizePhoneNumber(phoneNumber);
+  if (!normalized) throw new Error(`${phoneNumber} is not a valid phone number`);
+
+  const existing = getEmergencyConfig().devices.find(device => device.channel === "sms" && device.phoneNumber === normalized);
+  const device: Device = existing
+    ? {
+      ...existing,
+      regions: parseRegions([...existing.regions, ...regions].join(",")),
+      ...(locale ? { locale } : {}),
+      ...(location ? { location } : {}),
+      lastSeenAt: new Date().toISOString(),
+      optedIn: true
+    }
+    : {
+      id: crypto.randomUUID(),
+      owner,
+      channel: "sms",
+      phoneNumber: normalized,
+      regions: parseRegions(regions.join(",")),
+      ...(locale ? { locale } : {}),
+      ...(location ? { location } : {}),
+      lastSeenAt: new Date().toISOString(),
+      optedIn: true
+    };
+
+  updateDevices(devices => existing ? devices.map(candidate => candidate.id === device.id ? device : candidate) : [...devices, device]);
+  return device;
+};
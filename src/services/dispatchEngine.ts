@@ -0,0 +1,283 @@
+import { ChannelType, getChannel } from "./notificationChannels";
+import { DeliveryReport, DeliveryResult } from "./deliveryReport";
+import { addDeadLetter, getDeadLetters, removeDeadLetter, updateDeadLetter } from "./deadLetterQueue";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // Fraction of each delay that is randomised, between 0 and 1
+}
+
+export interface OutboundMessage {
+  recipient: string;
+  group: string;
+  channel: ChannelType;
+  address: string;
+  subject: string;
+  body: string;
+  retryPolicy?: Partial<RetryPolicy>; // Overrides the dispatch-wide policy for this message
+  ackToken?: string; // Set when the recipient is asked to acknowledge the message
+  shortForm?: boolean; // SMS cut down to its first sentence to fit the segment budget
+}
+
+// One recipient and the messages to try for them, in fallback order
+export interface DispatchJob {
+  steps: OutboundMessage[];
+  ackTimeoutMs?: number; // Fall back to the next step if a sent message isn't acknowledged in time
+}
+
+export interface DispatchProgress {
+  completed: number;
+  total: number;
+  sent: number;
+  failed: number;
+}
+
+export interface DispatchOptions {
+  concurrency?: Partial<Record<ChannelType, number>>;
+  retryPolicy?: Partial<RetryPolicy>;
+  onProgress?: (progress: DispatchProgress) => void;
+  signal?: AbortSignal;
+  // Resolves true once the recipient acknowledges the message, or false when the timeout passes.
+  // Without it, a sent message is treated as acknowledged.
+  waitForAcknowledgement?: (message: OutboundMessage, timeoutMs: number, signal?: AbortSignal) => Promise<boolean>;
+  send?: MessageSender; // Replaces the registered channels, e.g. with the exercise sink
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5
+};
+
+// Maximum number of in-flight messages per channel
+export const DEFAULT_CHANNEL_CONCURRENCY: Record<ChannelType, number> = {
+  sms: 10,
+  email: 20,
+  push: 50
+};
+
+// Exponential backoff: baseDelay * 2^(attempt - 1), capped at maxDelay, with part of the delay randomised
+export const getRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+};
+
+// Resolves after the delay, or as soon as the signal aborts
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener("abort", onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener("abort", onAbort, { once: true });
+});
+
+// Resolves true when the provider accepts the message
+export type MessageSender = (message: OutboundMessage) => Promise<boolean>;
+
+const sendViaChannel: MessageSender = message =>
+  getChannel(message.channel).send(message.address, { subject: message.subject, body: message.body });
+
+const attemptSend = async (message: OutboundMessage, send: MessageSender): Promise<string | null> => {
+  try {
+    const accepted = await send(message);
+    return accepted ? null : "Provider did not accept the message";
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+interface SendOutcome {
+  error: string | null;
+  attempts: number;
+}
+
+// Sends one message, retrying failures until the policy runs out or the signal aborts
+const sendWithRetry = async (
+  message: OutboundMessage,
+  retryPolicy: RetryPolicy,
+  signal?: AbortSignal,
+  send = sendViaChannel
+): Promise<SendOutcome> => {
+  const policy = { ...retryPolicy, ...message.retryPolicy };
+
+  let attempts = 0;
+  let error: string | null = null;
+  do {
+    if (attempts > 0) {
+      await wait(getRetryDelay(policy, attempts), signal);
+      if (signal?.aborted) break;
+    }
+    attempts += 1;
+    error = await attemptSend(message, send);
+  } while (error && attempts < policy.maxAttempts);
+
+  return { error, attempts };
+};
+
+// Caps the number of tasks holding a slot at once; a released slot is handed straight to the next waiter
+const createLimiter = (limit: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquire = (): Promise<void> => {
+    if (active < limit) {
+      active += 1;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active -= 1;
+    }
+  };
+
+  return { acquire, release };
+};
+
+// Fans jobs out with bounded parallelism per channel. Each job walks its fallback chain:
+// the next channel is only tried when the previous one fails, or when an acknowledgement
+// timeout is set and the recipient doesn't acknowledge in time. Failures are recorded on
+// the report instead of aborting the broadcast; jobs that had not started when the signal
+// aborts are recorded as cancelled.
+export const dispatchJobs = async (
+  report: DeliveryReport,
+  jobs: DispatchJob[],
+  options: DispatchOptions = {}
+): Promise<DeliveryReport> => {
+  const { signal, onProgress, waitForAcknowledgement, send } = options;
+  const concurrency = { ...DEFAULT_CHANNEL_CONCURRENCY, ...options.concurrency };
+  const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+  // Recipients with no address on any channel have nothing to send, so they don't count towards progress
+  const runnable = jobs.filter(job => job.steps.length > 0);
+  const progress: DispatchProgress = { completed: 0, total: runnable.length, sent: 0, failed: 0 };
+  const limiters = new Map<ChannelType, ReturnType<typeof createLimiter>>();
+
+  const getLimiter = (channel: ChannelType) => {
+    if (!limiters.has(channel)) {
+      limiters.set(channel, createLimiter(Math.max(1, concurrency[channel])));
+    }
+    return limiters.get(channel)!;
+  };
+
+  const record = (result: DeliveryResult) => {
+    report.deliveries.push(result);
+    progress.completed += 1;
+    if (result.status === "sent") progress.sent += 1;
+    if (result.status === "failed") progress.failed += 1;
+    onProgress?.({ ...progress });
+  };
+
+  const runJob = async (job: DispatchJob) => {
+    const started = performance.now();
+    const triedChannels: ChannelType[] = [];
+    let attempts = 0;
+    let result: Omit<DeliveryResult, "attempts" | "latencyMs" | "fallbackChannels"> | null = null;
+
+    for (const [index, message] of job.steps.entries()) {
+      const limiter = getLimiter(message.channel);
+      await limiter.acquire();
+      if (signal?.aborted) {
+        limiter.release();
+        break;
+      }
+
+      let outcome: SendOutcome;
+      try {
+        outcome = await sendWithRetry(message, retryPolicy, signal, send);
+      } finally {
+        limiter.release();
+      }
+
+      const { recipient, group, channel, address } = message;
+      attempts += outcome.attempts;
+      triedChannels.push(channel);
+
+      if (outcome.error) {
+        result = { recipient, group, channel, address, status: "failed", error: outcome.error };
+        const isLastStep = index === job.steps.length - 1;
+        if (isLastStep || signal?.aborted) {
+          addDeadLetter({
+            reportId: report.id,
+            action: report.action,
+            message,
+            attempts: outcome.attempts,
+            lastError: outcome.error,
+            failedAt: new Date().toISOString(),
+            ...(send ? { send } : {})
+          });
+        }
+        continue;
+      }
+
+      result = { recipient, group, channel, address, status: "sent" };
+      if (!job.ackTimeoutMs || !waitForAcknowledgement) break;
+
+      const acknowledged = await waitForAcknowledgement(message, job.ackTimeoutMs, signal);
+      result.acknowledged = acknowledged;
+      if (acknowledged || signal?.aborted) break;
+    }
+
+    if (!result) {
+      const { recipient, group, channel, address } = job.steps[0];
+      result = { recipient, group, channel, address, status: "cancelled", error: "Broadcast cancelled" };
+    }
+
+    record({
+      ...result,
+      attempts,
+      fallbackChannels: triedChannels.slice(0, -1),
+      latencyMs: Math.round(performance.now() - started)
+    });
+  };
+
+  onProgress?.({ ...progress });
+  await Promise.all(runnable.map(runJob));
+
+  return report;
+};
+
+// Manually re-sends a dead-lettered message with a fresh retry policy, through the same sender as the
+// original dispatch so a drill message stays in the exercise sink. The entry leaves the queue once
+// delivered; otherwise its attempt count and last error are updated.
+export const redriveDeadLetter = async (id: string, retryPolicy: Partial<RetryPolicy> = {}): Promise<DeliveryResult> => {
+  const deadLetter = getDeadLetters().find(entry => entry.id === id);
+  if (!deadLetter) {
+    throw new Error(`Dead letter ${id} not found`);
+  }
+
+  const started = performance.now();
+  const { recipient, group, channel, address } = deadLetter.message;
+  const outcome = await sendWithRetry(deadLetter.message, { ...DEFAULT_RETRY_POLICY, ...retryPolicy }, undefined, deadLetter.send);
+  if (outcome.error) {
+    updateDeadLetter(id, {
+      attempts: deadLetter.attempts + outcome.attempts,
+      lastError: outcome.error,
+      failedAt: new Date().toISOString()
+    });
+  } else {
+    removeDeadLetter(id);
+  }
+
+  return {
+    recipient,
+    group,
+    channel,
+    address,
+    status: outcome.error ? "failed" : "sent",
+    error: outcome.error ?? undefined,
+    attempts: outcome.attempts,
+    latencyMs: Math.round(performance.now() - started)
+  };
+};
@@ -1,261 +1,555 @@
-interface ContactInfo {
+import { DeliveryReport, createDeliveryReport, summarizeDeliveryReport } from "./deliveryReport";
+import { DispatchJob, DispatchOptions, OutboundMessage, dispatchJobs } from "./dispatchEngine";
+import { ChannelType } from "./notificationChannels";
+import { acknowledgementInstructions, issueAcknowledgementToken, waitForAcknowledgement } from "./acknowledgementService";
+import { EscalationPolicy, cancelEscalations, runEscalation } from "./escalationService";
+import { AmendmentType, RenderedMessage, TemplateOverrides, TemplateVariables, createMessageRenderer } from "./messageTemplates";
+import { getEmergencyConfig } from "./configStore";
+import { ResolvedRecipients, RoutingContext, RoutingRule, Severity, planRouting, resolveRecipients } from "./routingRules";
+import { normalizePhoneNumber } from "./phoneNumbers";
+import { Device, deviceAddress } from "./deviceRegistry";
+import { TargetArea } from "./geoArea";
+import { createCapAlert, publishCapAlert } from "./capAlerts";
+import { AuthorizationPolicy, auditOperator, getCurrentOperatorId, getOperator, requiresSecondApprover } from "./actionAuthorization";
+import { AuditEntryInput, recordAuditEntry } from "./auditLog";
+import { SmsSuffix, composeSms } from "./smsSegments";
+import { ExerciseSettings, markAsExercise, sendToSink } from "./exerciseMode";
+import { IssuedAlert, canAmendAlert, getAlertChain, getIssuedAlert, recordIssuedAlert } from "./alertHistory";
+
+export interface ContactInfo {
   name: string;
   role: string;
   phoneNumber: string;
   email: string;
+  pushToken?: string;
+  fallbackChain?: ChannelType[]; // Overrides EmergencyConfig.defaultFallbackChain for this contact
+  locale?: string; // Language tag such as "es" or "vi-VN"; English when unset or untranslated
+  tags?: string[]; // Role tags such as "medical" or "hazmat" that actions can target across teams
 }
 
-interface EmergencyTeam {
+export interface EmergencyTeam {
   teamName: string;
   teamHead: ContactInfo;
   members: ContactInfo[];
+  escalationChain?: ContactInfo[]; // Deputy first, then each higher level, notified in turn while the head hasn't acknowledged
+}
+
+export type EmergencyActionType = "evacuation" | "alert" | "resources" | "allClear";
+
+export const EMERGENCY_ACTION_LABELS: Record<EmergencyActionType, string> = {
+  evacuation: "Evacuation",
+  alert: "Region Alert",
+  resources: "Resources Request",
+  allClear: "All Clear"
+};
+
+// Who an action notifies; teams are escalated when their head doesn't acknowledge, tagged contacts are not
+export interface ActionRecipients {
+  teams: string[]; // Keys into EmergencyConfig.teams
+  tags: string[]; // Anyone on any team carrying one of these role tags
+  regionDevices: boolean;
+}
+
+export interface EmergencyActionOptions extends DispatchOptions {
+  details?: Partial<TemplateVariables>; // Disaster type, shelter location, instructions, ... for the message templates
+  severity?: Severity; // With details.disasterType and the region, selects which routing rules apply
+  area?: TargetArea; // Limits region devices to those located inside this polygon instead of those registered to the region
+  requestedBy?: string; // Operator id for the audit log; defaults to whoever is at the console
+  approvedBy?: string; // Operator id of the second person, when the action went through the two-person rule
 }
 
 export interface EmergencyConfig {
-  evacuationTeam: EmergencyTeam;
-  alertTeam: EmergencyTeam;
-  resourcesTeam: EmergencyTeam;
-  allClearTeam: EmergencyTeam;
-  regionDevices: string[]; // Could be phone numbers or device IDs
+  teams: Record<string, EmergencyTeam>;
+  actionRecipients: Record<EmergencyActionType, ActionRecipients>; // Always notified; routing rules can add more
+  routingRules: RoutingRule[];
+  devices: Device[];
+  defaultFallbackChain: ChannelType[]; // Channels tried in order until one reaches the contact
+  acknowledgementTimeoutMs: number; // Fall back when a contact doesn't acknowledge in time; 0 waits for delivery only
+  smsSegmentBudget: number; // Longer SMS are sent in short form; email and push keep the full text
+  templateOverrides: TemplateOverrides; // Operator edits to the default message templates
+  escalationPolicies: Record<EmergencyActionType, EscalationPolicy>;
+  authorization: AuthorizationPolicy; // Which actions need a second operator's approval
+  exercise: ExerciseSettings; // Drill mode; while active nothing reaches the real recipients
 }
 
-// Default configuration - in a real app, this would come from a backend system
-const defaultEmergencyConfig: EmergencyConfig = {
-  evacuationTeam: {
-    teamName: "Evacuation Response",
-    teamHead: {
-      name: "Sarah Johnson",
-      role: "Evacuation Director",
-      phoneNumber: "+1-555-123-4567",
-      email: "sjohnson@emergency.org"
-    },
-    members: [
-      {
-        name: "Mike Roberts",
-        role: "Field Coordinator",
-        phoneNumber: "+1-555-234-5678",
-        email: "mroberts@emergency.org"
-      },
-      {
-        name: "Lisa Chen",
-        role: "Transportation Lead",
-        phoneNumber: "+1-555-345-6789",
-        email: "lchen@emergency.org"
-      }
-    ]
-  },
-  alertTeam: {
-    teamName: "Public Alert System",
-    teamHead: {
-      name: "David Williams",
-      role: "Alert System Director",
-      phoneNumber: "+1-555-456-7890",
-      email: "dwilliams@emergency.org"
-    },
-    members: [
-      {
-        name: "Carlos Rodriguez",
-        role: "Communications Specialist",
-        phoneNumber: "+1-555-567-8901",
-        email: "crodriguez@emergency.org"
-      },
-      {
-        name: "Aisha Patel",
-        role: "Media Relations",
-        phoneNumber: "+1-555-678-9012",
-        email: "apatel@emergency.org"
-      }
-    ]
-  },
-  resourcesTeam: {
-    teamName: "Resource Management",
-    teamHead: {
-      name: "Robert Kim",
-      role: "Resource Director",
-      phoneNumber: "+1-555-789-0123",
-      email: "rkim@emergency.org"
-    },
-    members: [
-      {
-        name: "Jane Martinez",
-        role: "Supply Chain Manager",
-        phoneNumber: "+1-555-890-1234",
-        email: "jmartinez@emergency.org"
-      },
-      {
-        name: "Sam Taylor",
-        role: "Equipment Coordinator",
-        phoneNumber: "+1-555-901-2345",
-        email: "staylor@emergency.org"
-      }
-    ]
-  },
-  allClearTeam: {
-    teamName: "All Clear Operations",
-    teamHead: {
-      name: "Emma Wilson",
-      role: "Operations Director",
-      phoneNumber: "+1-555-012-3456",
-      email: "ewilson@emergency.org"
-    },
-    members: [
-      {
-        name: "Thomas Brown",
-        role: "Safety Inspector",
-        phoneNumber: "+1-555-123-4567",
-        email: "tbrown@emergency.org"
-      },
-      {
-        name: "Nina Garcia",
-        role: "Community Liaison",
-        phoneNumber: "+1-555-234-5678",
-        email: "ngarcia@emergency.org"
-      }
-    ]
-  },
-  regionDevices: [
-    "+1-555-111-2222", // Represents a mobile device in the region
-    "+1-555-333-4444", // Represents another device
-    "laptop-id-12345"  // Represents a connected laptop
-  ]
-};
+// smsNotice leads the SMS in full, ahead of the text that is shortened to fit the budget
+type MessageRenderer = (locale?: string) => RenderedMessage & { smsNotice?: string };
+
+// Hands out the acknowledgement token a recipient is asked to reply with
+type TokenIssuer = (recipient: string, group: string) => string;
 
-// Add a new function to add a custom phone number to the region devices
-export const addCustomPhoneNumber = (phoneNumber: string, config = defaultEmergencyConfig): EmergencyConfig => {
-  // First check if the phone number already exists in the config
-  if (!config.regionDevices.includes(phoneNumber)) {
-    config.regionDevices.push(phoneNumber);
-    console.log(`Added phone number ${phoneNumber} to region devices`);
-  } else {
-    console.log(`Phone number ${phoneNumber} already in region devices`);
+const acknowledgementTokens = (reportId: string): TokenIssuer =>
+  (recipient, group) => issueAcknowledgementToken(reportId, recipient, group).token;
+
+const contactAddress = (contact: ContactInfo, channel: ChannelType): string | undefined => {
+  switch (channel) {
+    case "push":
+      return contact.pushToken;
+    case "sms":
+      return contact.phoneNumber;
+    case "email":
+      return contact.email;
   }
-  return config;
 };
 
-// In a real application, these functions would make API calls to external services
-export const sendSMS = async (phoneNumber: string, message: string): Promise<boolean> => {
-  console.log(`SMS would be sent to ${phoneNumber}: ${message}`);
-  // Simulate API call
-  return new Promise(resolve => setTimeout(() => resolve(true), 500));
+const channelContent = (message: RenderedMessage, channel: ChannelType): { subject: string; body: string } => {
+  switch (channel) {
+    case "sms":
+      return { subject: message.emailSubject, body: message.sms };
+    case "email":
+      return { subject: message.emailSubject, body: message.email };
+    case "push":
+      return { subject: message.pushTitle, body: message.push };
+  }
 };
 
-export const sendEmail = async (email: string, subject: string, message: string): Promise<boolean> => {
-  console.log(`Email would be sent to ${email}: ${subject} - ${message}`);
-  // Simulate API call
-  return new Promise(resolve => setTimeout(() => resolve(true), 500));
+// The channel's text with the suffix appended; SMS is fitted to the segment budget
+const composeContent = (
+  message: ReturnType<MessageRenderer>,
+  channel: ChannelType,
+  config: EmergencyConfig,
+  suffix?: SmsSuffix
+): Pick<OutboundMessage, "subject" | "body" | "shortForm"> => {
+  const { subject, body } = channelContent(message, channel);
+  if (channel !== "sms") {
+    const separator = channel === "email" ? "\n\n" : " ";
+    return { subject, body: suffix ? `${body}${separator}${suffix.full}` : body };
+  }
+
+  const sms = composeSms(body, config.smsSegmentBudget, suffix, message.smsNotice);
+  if (sms.overBudget) console.warn(`SMS is ${sms.count.segments} segments (${sms.count.encoding}), over the budget of ${config.smsSegmentBudget}`);
+  return { subject, body: sms.body, ...(sms.shortForm ? { shortForm: true } : {}) };
 };
 
-export const sendPushNotification = async (deviceId: string, title: string, message: string): Promise<boolean> => {
-  console.log(`Push notification would be sent to ${deviceId}: ${title} - ${message}`);
-  // Simulate API call
-  return new Promise(resolve => setTimeout(() => resolve(true), 500));
+// Addresses already messaged within one action, mapped to the acknowledgement token sent there (null for
+// region devices). Later recipients skip these, so a phone shared by two contacts only gets the message once.
+type ClaimedAddresses = Map<string, string | null>;
+
+const addressKey = (channel: ChannelType, address: string): string => {
+  switch (channel) {
+    case "sms":
+      return `sms:${normalizePhoneNumber(address) ?? address}`;
+    case "email":
+      return `email:${address.trim().toLowerCase()}`;
+    case "push":
+      return `push:${address}`;
+  }
 };
 
-// Main functions for different emergency actions
-export const initiateEvacuation = async (regionName: string, config = defaultEmergencyConfig): Promise<boolean> => {
-  const message = `URGENT: Evacuation required in ${regionName}. Implement evacuation protocol immediately.`;
-  const emailSubject = `URGENT EVACUATION: ${regionName}`;
-  
-  try {
-    // Notify team head
-    await sendSMS(config.evacuationTeam.teamHead.phoneNumber, message);
-    await sendEmail(config.evacuationTeam.teamHead.email, emailSubject, message);
-    
-    // Notify team members
-    for (const member of config.evacuationTeam.members) {
-      await sendSMS(member.phoneNumber, message);
-      await sendEmail(member.email, emailSubject, message);
-    }
-    
-    console.log("Evacuation notification completed");
-    return true;
-  } catch (error) {
-    console.error("Failed to send evacuation notifications:", error);
-    return false;
+// One job per contact, skipping channels in the fallback chain the contact has no address for or that
+// an earlier recipient of this action already claimed. Every channel in the chain carries the same
+// acknowledgement token. A contact with nothing left to reach gets no job and shares the earlier token.
+const contactJob = (
+  issueToken: TokenIssuer,
+  contact: ContactInfo,
+  group: string,
+  config: EmergencyConfig,
+  render: MessageRenderer,
+  claimed: ClaimedAddresses = new Map()
+): { job: DispatchJob | null; token: string | null } => {
+  const chain = (contact.fallbackChain ?? config.defaultFallbackChain).flatMap(channel => {
+    const address = contactAddress(contact, channel);
+    return address ? [{ channel, address, key: addressKey(channel, address) }] : [];
+  });
+  const unclaimed = chain.filter(({ key }) => !claimed.has(key));
+  if (chain.length > 0 && unclaimed.length === 0) {
+    console.log(`Skipping ${contact.name} (${group}); already notified at the same addresses in this action`);
+    return { job: null, token: claimed.get(chain[0].key) ?? null };
+  }
+  // Nobody to message, so nothing to acknowledge
+  if (unclaimed.length === 0) {
+    console.warn(`${contact.name} (${group}) has no address on any channel in their fallback chain`);
+    return { job: null, token: null };
   }
+
+  const token = issueToken(contact.name, group);
+  const instructions: SmsSuffix = {
+    full: acknowledgementInstructions(token, contact.locale),
+    short: acknowledgementInstructions(token, contact.locale, false)
+  };
+  const message = render(contact.locale);
+  unclaimed.forEach(({ key }) => claimed.set(key, token));
+
+  return {
+    job: {
+      steps: unclaimed.map(({ channel, address }): OutboundMessage =>
+        ({ recipient: contact.name, group, channel, address, ...composeContent(message, channel, config, instructions), ackToken: token })),
+      ackTimeoutMs: config.acknowledgementTimeoutMs
+    },
+    token
+  };
 };
 
-export const sendRegionAlert = async (regionName: string, alertMessage: string, config = defaultEmergencyConfig): Promise<boolean> => {
-  const message = `ALERT: ${alertMessage} in ${regionName}. Take appropriate action immediately.`;
-  const emailSubject = `REGION ALERT: ${regionName}`;
-  
-  try {
-    // Notify alert team
-    await sendSMS(config.alertTeam.teamHead.phoneNumber, message);
-    await sendEmail(config.alertTeam.teamHead.email, emailSubject, message);
-    
-    for (const member of config.alertTeam.members) {
-      await sendSMS(member.phoneNumber, message);
-      await sendEmail(member.email, emailSubject, message);
+const teamJobs = (
+  issueToken: TokenIssuer,
+  team: EmergencyTeam,
+  config: EmergencyConfig,
+  render: MessageRenderer,
+  claimed: ClaimedAddresses
+): { jobs: DispatchJob[]; headToken: string | null } => {
+  const head = contactJob(issueToken, team.teamHead, `${team.teamName} Lead`, config, render, claimed);
+  const members = team.members.map(member => contactJob(issueToken, member, `${team.teamName} Members`, config, render, claimed));
+
+  return { jobs: [head, ...members].flatMap(({ job }) => job ? [job] : []), headToken: head.token };
+};
+
+// Group name on every message sent to a registered region device rather than a contact
+export const REGION_DEVICES_GROUP = "Region Devices";
+
+const regionDeviceJobs = (devices: Device[], config: EmergencyConfig, render: MessageRenderer, claimed: ClaimedAddresses): DispatchJob[] =>
+  devices.flatMap((device): DispatchJob[] => {
+    const { channel, owner, locale } = device;
+    const address = deviceAddress(device);
+    const key = addressKey(channel, address);
+    if (claimed.has(key)) {
+      console.log(`Skipping ${owner}'s device ${address}; already notified in this action`);
+      return [];
     }
-    
-    // Send to all regional devices
-    for (const device of config.regionDevices) {
-      if (device.startsWith("+")) {
-        await sendSMS(device, message);
-      } else {
-        await sendPushNotification(device, "EMERGENCY ALERT", message);
-      }
+
+    claimed.set(key, null);
+    return [{ steps: [{ recipient: owner, group: REGION_DEVICES_GROUP, channel, address, ...composeContent(render(locale), channel, config) }] }];
+  });
+
+const dispatchWithAcknowledgements = (report: DeliveryReport, jobs: DispatchJob[], options: DispatchOptions): Promise<DeliveryReport> =>
+  dispatchJobs(report, jobs, {
+    waitForAcknowledgement: (message, timeoutMs, signal) =>
+      message.ackToken ? waitForAcknowledgement(message.ackToken, timeoutMs, signal) : Promise.resolve(true),
+    ...options
+  });
+
+// Runs in the background after the action completes; see escalationService for the log
+const escalateUnacknowledged = (
+  report: DeliveryReport,
+  actionType: EmergencyActionType,
+  team: EmergencyTeam,
+  headToken: string | null,
+  config: EmergencyConfig,
+  render: MessageRenderer,
+  options: DispatchOptions,
+  audit: AuditEntryInput // Of the action being escalated; each escalation message is recorded under it
+) => {
+  if (options.signal?.aborted) return;
+
+  const notice = `ESCALATION: ${team.teamHead.name} (${team.teamHead.role}) has not acknowledged.`;
+  const renderEscalation: MessageRenderer = locale => {
+    const message = render(locale);
+    return {
+      sms: message.sms,
+      smsNotice: notice, // Kept whole when the alert itself is shortened
+      emailSubject: `ESCALATION: ${message.emailSubject}`,
+      email: `${notice}\n\n${message.email}`,
+      pushTitle: `ESCALATION: ${message.pushTitle}`,
+      push: `${notice} ${message.push}`
+    };
+  };
+
+  void runEscalation({
+    reportId: report.id,
+    teamName: team.teamName,
+    policy: config.escalationPolicies[actionType],
+    headName: team.teamHead.name,
+    headToken,
+    levels: team.escalationChain ?? [],
+    notifyLevel: async (contact, level) => {
+      const { job, token } = contactJob(acknowledgementTokens(report.id), contact, `Escalation Level ${level}`, config, renderEscalation);
+      const escalationReport = await dispatchWithAcknowledgements(createDeliveryReport(`${report.action} Escalation`, report.regionName), job ? [job] : [], { send: options.send });
+      void recordAuditEntry(completeReport(escalationReport), audit);
+      return { token, delivered: summarizeDeliveryReport(escalationReport).sent > 0 };
     }
-    
-    console.log("Region alert notification completed");
-    return true;
-  } catch (error) {
-    console.error("Failed to send region alerts:", error);
-    return false;
-  }
+  });
+};
+
+const completeReport = (report: DeliveryReport): DeliveryReport => {
+  report.completedAt = new Date().toISOString();
+  const { sent, failed, cancelled } = summarizeDeliveryReport(report);
+  console.log(`${report.action} notification completed: ${sent} sent, ${failed} failed, ${cancelled} cancelled`);
+  return report;
 };
 
-export const requestEmergencyResources = async (regionName: string, resourcesNeeded: string[], config = defaultEmergencyConfig): Promise<boolean> => {
-  const resourceList = resourcesNeeded.join(", ");
-  const message = `RESOURCE REQUEST: The following resources are needed in ${regionName}: ${resourceList}`;
-  const emailSubject = `RESOURCE REQUEST: ${regionName}`;
-  
-  try {
-    // Notify resources team
-    await sendSMS(config.resourcesTeam.teamHead.phoneNumber, message);
-    await sendEmail(config.resourcesTeam.teamHead.email, emailSubject, message);
-    
-    for (const member of config.resourcesTeam.members) {
-      await sendSMS(member.phoneNumber, message);
-      await sendEmail(member.email, emailSubject, message);
+// How an action relates to an alert sent earlier
+interface Amendment {
+  msgType: AmendmentType;
+  original: IssuedAlert; // The latest version of the alert
+}
+
+const AMENDMENT_LABELS: Record<AmendmentType, string> = {
+  Update: "Correction",
+  Cancel: "Cancellation"
+};
+
+const actionLabel = (reportAction: string, amendment?: Amendment): string =>
+  amendment ? `${reportAction} ${AMENDMENT_LABELS[amendment.msgType]}` : reportAction;
+
+// Amendments follow the original alert, whether or not an exercise is running now
+const isExercise = (config: EmergencyConfig, amendment?: Amendment): boolean =>
+  amendment ? amendment.original.exercise === true : config.exercise.active;
+
+const actionAudit = (actionType: EmergencyActionType, config: EmergencyConfig, options: EmergencyActionOptions, amendment?: Amendment): AuditEntryInput => ({
+  actionType,
+  exercise: isExercise(config, amendment),
+  requestedBy: auditOperator(options.requestedBy ?? getCurrentOperatorId(), config),
+  approvedBy: auditOperator(options.approvedBy, config)
+});
+
+// Everyone the action reaches under any of the routing contexts, each team and device once
+const resolveActionRecipients = (
+  actionType: EmergencyActionType,
+  reportAction: string,
+  contexts: RoutingContext[],
+  config: EmergencyConfig
+): ResolvedRecipients => {
+  const resolved = contexts.map(context => {
+    const plan = planRouting(actionType, context, config);
+    if (plan.matchedRules.length > 0) {
+      console.log(`${reportAction} routing rules applied: ${plan.matchedRules.map(rule => rule.name).join(", ")}`);
     }
-    
-    console.log("Resource request notification completed");
-    return true;
-  } catch (error) {
-    console.error("Failed to send resource requests:", error);
-    return false;
+    return resolveRecipients(plan.recipients, config, context);
+  });
+
+  return {
+    teams: Array.from(new Set(resolved.flatMap(recipients => recipients.teams))),
+    tagged: resolved.flatMap(recipients => recipients.tagged), // Repeats are skipped as already-claimed addresses
+    regionDevices: Array.from(new Set(resolved.flatMap(recipients => recipients.regionDevices)))
+  };
+};
+
+const routingContextOf = (alert: IssuedAlert): RoutingContext =>
+  ({ region: alert.regionName, disasterType: alert.variables.disasterType, severity: alert.severity, area: alert.area });
+
+// The rendered messages and everyone they go to; shared by sending and previewing an action.
+// Corrections and cancellations also reach everyone earlier versions were routed to, so people alerted by mistake hear about it.
+// Exercises are marked as such and, when drilling with participants, reach only them. Amendments stay
+// an exercise or not as the original was, whatever mode the dashboard is in now.
+const planAction = (
+  actionType: EmergencyActionType,
+  reportAction: string,
+  regionName: string,
+  variables: Partial<TemplateVariables>,
+  config: EmergencyConfig,
+  options: EmergencyActionOptions,
+  amendment?: Amendment
+) => {
+  const messageVariables = { ...options.details, ...variables, region: regionName };
+  const exercise = isExercise(config, amendment);
+  const renderMessage = createMessageRenderer(actionType, messageVariables, amendment?.msgType);
+  const drillOnly = exercise && config.exercise.target === "drillRecipients";
+  const action = actionLabel(reportAction, amendment);
+  const context: RoutingContext = { region: regionName, disasterType: messageVariables.disasterType, severity: options.severity, area: options.area };
+  const contexts = amendment ? [...getAlertChain(amendment.original.alertId).map(routingContextOf), context] : [context];
+
+  return {
+    action,
+    exercise,
+    messageVariables,
+    context,
+    render: exercise ? (locale?: string) => markAsExercise(renderMessage(locale)) : renderMessage,
+    recipients: drillOnly ? { teams: [], tagged: [], regionDevices: [] } : resolveActionRecipients(actionType, action, contexts, config),
+    participants: drillOnly ? config.exercise.drillRecipients : []
+  };
+};
+
+// Teams first, then role-tagged contacts, then region devices, then drill participants, each address claimed once
+const actionJobs = (
+  { teams, tagged, regionDevices }: ResolvedRecipients,
+  config: EmergencyConfig,
+  render: MessageRenderer,
+  issueToken: TokenIssuer,
+  participants: ContactInfo[] = []
+) => {
+  const claimed: ClaimedAddresses = new Map();
+  const notifiedTeams = teams.map(team => ({ team, ...teamJobs(issueToken, team, config, render, claimed) }));
+  const taggedJobs = tagged.flatMap(({ contact, tag }) => contactJob(issueToken, contact, `Role: ${tag}`, config, render, claimed).job ?? []);
+  const participantJobs = participants.flatMap(contact => contactJob(issueToken, contact, "Exercise Participants", config, render, claimed).job ?? []);
+
+  return {
+    notifiedTeams,
+    jobs: [
+      ...notifiedTeams.flatMap(({ jobs }) => jobs),
+      ...taggedJobs,
+      ...regionDeviceJobs(regionDevices, config, render, claimed),
+      ...participantJobs
+    ]
+  };
+};
+
+// Notifies the action's default recipients plus those of every matching routing rule, then escalates per team in the background
+const performAction = async (
+  actionType: EmergencyActionType,
+  reportAction: string,
+  regionName: string,
+  variables: Partial<TemplateVariables>,
+  config: EmergencyConfig,
+  options: EmergencyActionOptions,
+  amendment?: Amendment
+): Promise<DeliveryReport> => {
+  const { action, exercise, messageVariables, context, render, recipients, participants } =
+    planAction(actionType, reportAction, regionName, variables, config, options, amendment);
+  const report = createDeliveryReport(action, regionName);
+  const dispatchOptions = exercise && config.exercise.target === "localSink" ? { ...options, send: sendToSink } : options;
+  const audit = actionAudit(actionType, config, options, amendment);
+
+  const capAlert = createCapAlert(actionType, {
+    region: regionName,
+    disasterType: context.disasterType,
+    severity: context.severity,
+    area: context.area?.polygon,
+    message: render(),
+    instructions: messageVariables.instructions,
+    exercise
+  }, amendment?.msgType, amendment && getAlertChain(amendment.original.alertId).flatMap(alert => alert.capAlert ?? []));
+  if (capAlert) void publishCapAlert(capAlert, report.id);
+
+  recordIssuedAlert({
+    reportId: report.id,
+    alertId: amendment?.original.alertId ?? report.id,
+    version: amendment ? amendment.original.version + 1 : 1,
+    msgType: amendment?.msgType ?? "Alert",
+    references: amendment?.original.reportId,
+    actionType,
+    reportAction,
+    regionName,
+    variables: messageVariables,
+    severity: options.severity,
+    area: options.area,
+    capAlert: capAlert ?? undefined,
+    exercise,
+    issuedAt: report.startedAt
+  });
+  if (amendment) cancelEscalations(amendment.original.reportId); // The amended version no longer needs chasing
+
+  const { notifiedTeams, jobs } = actionJobs(recipients, config, render, acknowledgementTokens(report.id), participants);
+  await dispatchWithAcknowledgements(report, jobs, dispatchOptions);
+
+  if (amendment?.msgType !== "Cancel") {
+    notifiedTeams.forEach(({ team, headToken }) => {
+      escalateUnacknowledged(report, actionType, team, headToken, config, render, dispatchOptions, audit);
+    });
   }
+
+  completeReport(report);
+  void recordAuditEntry(report, audit, options.signal?.aborted ? "cancelled" : "completed");
+  return report;
 };
 
-export const signalAllClear = async (regionName: string, config = defaultEmergencyConfig): Promise<boolean> => {
-  const message = `ALL CLEAR: The emergency situation in ${regionName} has been resolved. You may return to normal operations.`;
-  const emailSubject = `ALL CLEAR: ${regionName}`;
-  
-  try {
-    // Notify all clear team
-    await sendSMS(config.allClearTeam.teamHead.phoneNumber, message);
-    await sendEmail(config.allClearTeam.teamHead.email, emailSubject, message);
-    
-    for (const member of config.allClearTeam.members) {
-      await sendSMS(member.phoneNumber, message);
-      await sendEmail(member.email, emailSubject, message);
-    }
-    
-    // Send to all regional devices
-    for (const device of config.regionDevices) {
-      if (device.startsWith("+")) {
-        await sendSMS(device, message);
-      } else {
-        await sendPushNotification(device, "ALL CLEAR", message);
-      }
+// The broadcast being sent, from the dashboard or the scheduler; escalations and re-sends don't count
+let activeBroadcast: { action: string; finished: Promise<unknown> } | null = null;
+
+export const getActiveBroadcast = (): string | null => activeBroadcast?.action ?? null;
+
+// Resolves once no broadcast is being sent, so a caller that starts one straight after won't be refused
+export const whenNoBroadcastRunning = async (): Promise<void> => {
+  while (activeBroadcast) await activeBroadcast.finished.catch(() => undefined);
+};
+
+// Why the action can't be sent now, or null when it can
+const actionBlocker = (...[actionType, reportAction, , , config, options, amendment]: Parameters<typeof performAction>): string | null => {
+  if (activeBroadcast) return `${reportAction} not started: wait for the ${activeBroadcast.action} broadcast to finish or cancel it first`;
+  // Corrections and cancellations are held to the same rule as the action they amend
+  if (requiresSecondApprover(actionType, config)) {
+    const requester = options.requestedBy ?? getCurrentOperatorId();
+    const approver = getOperator(options.approvedBy ?? null, config);
+    if (!approver?.canApprove || approver.id === requester) {
+      return `${actionLabel(reportAction, amendment)} needs a second operator's approval before it can be sent`;
     }
-    
-    console.log("All clear notification completed");
-    return true;
-  } catch (error) {
-    console.error("Failed to send all clear notifications:", error);
-    return false;
   }
+  return null;
+};
+
+// Audits an action that sent nothing, with the reason it didn't
+const recordUnsentAction = (args: Parameters<typeof performAction>, result: "blocked" | "failed", reason: string) => {
+  const [actionType, reportAction, regionName, , config, options, amendment] = args;
+  const report = createDeliveryReport(actionLabel(reportAction, amendment), regionName);
+  report.completedAt = report.startedAt;
+  void recordAuditEntry(report, actionAudit(actionType, config, options, amendment), result, reason);
+};
+
+// One broadcast at a time, so their progress, cancellation and channel concurrency limits don't mix
+const runAction = (...args: Parameters<typeof performAction>): Promise<DeliveryReport> => {
+  const blocker = actionBlocker(...args);
+  if (blocker) {
+    recordUnsentAction(args, "blocked", blocker);
+    return Promise.reject(new Error(blocker));
+  }
+
+  const [, reportAction] = args;
+  const finished = performAction(...args).catch(error => {
+    recordUnsentAction(args, "failed", error instanceof Error ? error.message : String(error));
+    throw error;
+  }).finally(() => {
+    activeBroadcast = null;
+  });
+  activeBroadcast = { action: reportAction, finished };
+  return finished;
+};
+
+// What an action would send, worked out without sending, recording or publishing anything
+export interface ActionPreview {
+  action: string;
+  regionName: string;
+  exercise: boolean;
+  jobs: DispatchJob[]; // One per recipient; steps are the channels tried in fallback order
+}
+
+// Stands in for the acknowledgement token so previewed messages are the length they will be when sent
+export const PREVIEW_ACK_TOKEN = "XXXXXX";
+
+export const previewEmergencyAction = (
+  actionType: EmergencyActionType,
+  regionName: string,
+  variables: Partial<TemplateVariables> = {},
+  config = getEmergencyConfig(),
+  options: EmergencyActionOptions = {}
+): ActionPreview => {
+  const { action, exercise, render, recipients, participants } = planAction(actionType, EMERGENCY_ACTION_LABELS[actionType], regionName, variables, config, options);
+  const { jobs } = actionJobs(recipients, config, render, () => PREVIEW_ACK_TOKEN, participants);
+  return { action, regionName, exercise, jobs: jobs.filter(job => job.steps.length > 0) }; // Dispatch skips contacts with no address too
+};
+
+// Main functions for different emergency actions
+export const initiateEvacuation = (regionName: string, config = getEmergencyConfig(), options: EmergencyActionOptions = {}): Promise<DeliveryReport> =>
+  runAction("evacuation", "Evacuation", regionName, {}, config, options);
+
+export const sendRegionAlert = (regionName: string, alertMessage: string, config = getEmergencyConfig(), options: EmergencyActionOptions = {}): Promise<DeliveryReport> =>
+  runAction("alert", "Alert", regionName, { alertMessage }, config, options);
+
+export const requestEmergencyResources = (regionName: string, resourcesNeeded: string[], config = getEmergencyConfig(), options: EmergencyActionOptions = {}): Promise<DeliveryReport> =>
+  runAction("resources", "Resources Request", regionName, { resources: resourcesNeeded.join(", ") }, config, options);
+
+export const signalAllClear = (regionName: string, config = getEmergencyConfig(), options: EmergencyActionOptions = {}): Promise<DeliveryReport> =>
+  runAction("allClear", "All Clear", regionName, {}, config, options);
+
+// Corrections to an alert sent earlier; anything left out keeps the amended version's value
+export interface AlertCorrection {
+  regionName?: string;
+  details?: Partial<TemplateVariables>;
+  severity?: Severity;
+  area?: TargetArea | null; // null drops the amended version's area
+}
+
+const amendableAlert = (reportId: string): IssuedAlert => {
+  const alert = getIssuedAlert(reportId);
+  if (!alert) throw new Error(`No alert was sent with report ${reportId}`);
+  if (!canAmendAlert(reportId)) throw new Error(`${alert.reportAction} v${alert.version} has been superseded or cancelled`);
+  return alert;
+};
+
+// Dispatch options plus who asked for and approved the amendment
+type AmendmentOptions = Omit<EmergencyActionOptions, "details" | "severity" | "area">;
+
+// Re-sends the alert with the corrections applied, marked as a CORRECTION
+export const sendAlertUpdate = (reportId: string, correction: AlertCorrection, config = getEmergencyConfig(), options: AmendmentOptions = {}): Promise<DeliveryReport> => {
+  const original = amendableAlert(reportId);
+  const area = correction.area === null ? undefined : correction.area ?? original.area;
+  return runAction(original.actionType, original.reportAction, correction.regionName ?? original.regionName,
+    { ...original.variables, ...correction.details }, config,
+    { ...options, severity: correction.severity ?? original.severity, area },
+    { msgType: "Update", original });
+};
+
+// Tells everyone the alert was routed to that it is CANCELLED and should be disregarded
+export const cancelAlert = (reportId: string, config = getEmergencyConfig(), options: AmendmentOptions = {}): Promise<DeliveryReport> => {
+  const original = amendableAlert(reportId);
+  return runAction(original.actionType, original.reportAction, original.regionName, original.variables, config,
+    { ...options, severity: original.severity, area: original.area },
+    { msgType: "Cancel", original });
 };
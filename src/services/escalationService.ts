@@ -0,0 +1,134 @@
+import { getAcknowledgements, waitForAnyAcknowledgement } from "./acknowledgementService";
+
+export interface EscalationPolicy {
+  enabled: boolean;
+  ackTimeoutMinutes: number; // How long each level has to acknowledge before the next level is notified
+}
+
+export type EscalationEvent = "started" | "escalated" | "delivery-failed" | "acknowledged" | "exhausted" | "cancelled";
+
+export interface EscalationLogEntry {
+  id: string;
+  reportId: string;
+  teamName: string;
+  level: number; // 0 is the team head; 1 the first deputy, and so on
+  event: EscalationEvent;
+  detail: string;
+  at: string;
+}
+
+export interface EscalationContact {
+  name: string;
+  role: string;
+}
+
+export interface EscalationRequest<T extends EscalationContact> {
+  reportId: string;
+  teamName: string;
+  policy: EscalationPolicy;
+  headName: string;
+  headToken: string | null; // null when the head couldn't be messaged, so the first level is notified straight away
+  levels: T[];
+  // Notifies the contact at the given level and returns its acknowledgement token and whether it was delivered
+  notifyLevel: (contact: T, level: number) => Promise<{ token: string | null; delivered: boolean }>;
+}
+
+export interface EscalationState {
+  log: EscalationLogEntry[];
+  active: string[]; // Keys of escalations still waiting, as "<reportId>:<teamName>"
+}
+
+type Listener = () => void;
+
+let state: EscalationState = { log: [], active: [] };
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+const escalationKey = (reportId: string, teamName: string) => `${reportId}:${teamName}`;
+
+const log = (entry: Omit<EscalationLogEntry, "id" | "at">) => {
+  const logged: EscalationLogEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), ...entry };
+  state = { ...state, log: [...state.log, logged] };
+  console.log(`[escalation] ${entry.teamName} level ${entry.level} ${entry.event}: ${entry.detail}`);
+  emitChange();
+};
+
+const setActive = (key: string, active: boolean) => {
+  state = { ...state, active: active ? [...state.active, key] : state.active.filter(entry => entry !== key) };
+  emitChange();
+};
+
+export const getEscalationState = (): EscalationState => state;
+
+export const subscribeToEscalations = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const cancelEscalations = (reportId: string): void => {
+  for (const [key, controller] of controllers) {
+    if (key.startsWith(`${reportId}:`)) controller.abort();
+  }
+};
+
+// Waits for the team head to acknowledge, notifying the next level each time the
+// policy's timeout passes without an acknowledgement from anyone notified so far.
+export const runEscalation = async <T extends EscalationContact>(request: EscalationRequest<T>): Promise<void> => {
+  const { reportId, teamName, policy, headName, headToken, levels, notifyLevel } = request;
+  if (!policy.enabled || levels.length === 0) return;
+
+  const key = escalationKey(reportId, teamName);
+  const controller = new AbortController();
+  controllers.set(key, controller);
+  setActive(key, true);
+
+  const timeoutMs = policy.ackTimeoutMinutes * 60 * 1000;
+  const tokens = headToken ? [headToken] : [];
+  log({
+    reportId,
+    teamName,
+    level: 0,
+    event: "started",
+    detail: headToken ? `Waiting ${policy.ackTimeoutMinutes} min for ${headName} to acknowledge` : `${headName} could not be messaged; escalating now`
+  });
+
+  try {
+    for (let level = 0; level <= levels.length; level++) {
+      const acknowledged = level === 0 && !headToken ? false : await waitForAnyAcknowledgement(tokens, timeoutMs, controller.signal);
+
+      if (controller.signal.aborted) {
+        log({ reportId, teamName, level, event: "cancelled", detail: "Escalation stopped by operator" });
+        return;
+      }
+
+      if (acknowledged) {
+        const acknowledgedBy = getAcknowledgements().find(entry => tokens.includes(entry.token) && entry.acknowledgedAt);
+        log({ reportId, teamName, level, event: "acknowledged", detail: `Acknowledged by ${acknowledgedBy?.recipient ?? "a notified contact"}` });
+        return;
+      }
+
+      if (level === levels.length) {
+        log({ reportId, teamName, level, event: "exhausted", detail: "No acknowledgement after the last escalation level" });
+        return;
+      }
+
+      const contact = levels[level];
+      log({ reportId, teamName, level: level + 1, event: "escalated", detail: `No acknowledgement within ${policy.ackTimeoutMinutes} min; notifying ${contact.name} (${contact.role})` });
+
+      const { token, delivered } = await notifyLevel(contact, level + 1);
+      if (token) tokens.push(token);
+      if (!delivered) {
+        log({ reportId, teamName, level: level + 1, event: "delivery-failed", detail: `Could not reach ${contact.name} on any channel` });
+      }
+    }
+  } finally {
+    controllers.delete(key);
+    setActive(key, false);
+  }
+};
@@ -0,0 +1,78 @@
+import type { ContactInfo, EmergencyConfig } from "./emergencyCommunicationService";
+import type { OutboundMessage } from "./dispatchEngine";
+import type { RenderedMessage } from "./messageTemplates";
+import { getEmergencyConfig, updateEmergencyConfig } from "./configStore";
+
+// Exercise (drill) mode: every outbound message is marked as an exercise and either goes to a drill-only
+// list of participants or is captured in a local sink instead of reaching anyone. The mode is part of the
+// saved config, so a reload in the middle of a drill stays in the drill.
+
+export type ExerciseTarget = "localSink" | "drillRecipients";
+
+export interface ExerciseSettings {
+  active: boolean;
+  target: ExerciseTarget;
+  drillRecipients: ContactInfo[]; // Everyone an exercise reaches when target is "drillRecipients"
+}
+
+export const EXERCISE_PREFIX = "EXERCISE EXERCISE EXERCISE";
+
+export const EXERCISE_TARGET_LABELS: Record<ExerciseTarget, string> = {
+  localSink: "Local sink (nothing leaves the dashboard)",
+  drillRecipients: "Drill participants only"
+};
+
+// A message the local sink swallowed
+export interface SinkMessage extends OutboundMessage {
+  id: string;
+  capturedAt: string;
+}
+
+type Listener = () => void;
+
+const SINK_LIMIT = 500;
+
+let sink: SinkMessage[] = [];
+const listeners = new Set<Listener>();
+
+const emitChange = () => {
+  listeners.forEach(listener => listener());
+};
+
+export const isExerciseActive = (config = getEmergencyConfig()): boolean => config.exercise.active;
+
+export const setExerciseActive = (active: boolean): EmergencyConfig =>
+  updateEmergencyConfig(config => ({ ...config, exercise: { ...config.exercise, active } }));
+
+export const updateExerciseSettings = (changes: Partial<Omit<ExerciseSettings, "active">>): EmergencyConfig =>
+  updateEmergencyConfig(config => ({ ...config, exercise: { ...config.exercise, ...changes } }));
+
+// Every part of the message is marked, so nobody mistakes a drill for the real thing whatever they read first
+export const markAsExercise = (message: RenderedMessage): RenderedMessage => ({
+  sms: `${EXERCISE_PREFIX} ${message.sms}`,
+  emailSubject: `${EXERCISE_PREFIX}: ${message.emailSubject}`,
+  email: `${EXERCISE_PREFIX}\n\n${message.email}\n\n${EXERCISE_PREFIX}`,
+  pushTitle: `${EXERCISE_PREFIX}: ${message.pushTitle}`,
+  push: `${EXERCISE_PREFIX} ${message.push}`
+});
+
+export const getSinkMessages = (): SinkMessage[] => sink;
+
+export const subscribeToSinkMessages = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Stands in for the notification channels during an exercise; always accepts
+export const sendToSink = async (message: OutboundMessage): Promise<boolean> => {
+  sink = [{ ...message, id: crypto.randomUUID(), capturedAt: new Date().toISOString() }, ...sink].slice(0, SINK_LIMIT);
+  emitChange();
+  return true;
+};
+
+export const clearSinkMessages = (): void => {
+  sink = [];
+  emitChange();
+};
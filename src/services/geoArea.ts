@@ -0,0 +1,70 @@
+// Geographic targeting for region broadcasts: a drawn or selected polygon on the map
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// Vertices in drawing order; the ring is closed implicitly
+export type GeoPolygon = GeoPoint[];
+
+export interface TargetArea {
+  name: string; // Shown to operators, e.g. "Drawn area" or "Around Houston Flooding"
+  polygon: GeoPolygon;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export const isValidPolygon = (polygon: GeoPolygon): boolean => polygon.length >= 3;
+
+// Ray casting in plain latitude/longitude, which is accurate enough at city scale and away from the antimeridian
+export const isPointInPolygon = (point: GeoPoint, polygon: GeoPolygon): boolean => {
+  if (!isValidPolygon(polygon)) return false;
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude) &&
+      point.longitude < (b.longitude - a.longitude) * (point.latitude - a.latitude) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// Approximates a circle as a polygon, for selecting the area around a point such as a disaster
+export const circlePolygon = (center: GeoPoint, radiusKm: number, vertices = 32): GeoPolygon => {
+  const latitudeDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const longitudeDelta = latitudeDelta / Math.cos(center.latitude * Math.PI / 180);
+  return Array.from({ length: vertices }, (_, index) => {
+    const angle = (index / vertices) * 2 * Math.PI;
+    return {
+      latitude: center.latitude + latitudeDelta * Math.sin(angle),
+      longitude: center.longitude + longitudeDelta * Math.cos(angle)
+    };
+  });
+};
+
+// GeoJSON wants [longitude, latitude] pairs and a closed ring
+export const toGeoJsonPolygon = (polygon: GeoPolygon): GeoJSON.Feature<GeoJSON.Polygon> => ({
+  type: "Feature",
+  properties: {},
+  geometry: {
+    type: "Polygon",
+    coordinates: [[...polygon, polygon[0]].map(({ latitude, longitude }) => [longitude, latitude])]
+  }
+});
+
+export const formatGeoPoint = ({ latitude, longitude }: GeoPoint): string =>
+  `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`;
+
+// Parses "29.7604, -95.3698"; returns null for anything else
+export const parseGeoPoint = (text: string): GeoPoint | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+};
@@ -0,0 +1,66 @@
+// Small key-value wrapper over IndexedDB for state that should survive a reload.
+// Without IndexedDB (private browsing, tests) reads return undefined and writes are dropped.
+
+const DB_NAME = "sentinel-compass";
+const DB_VERSION = 3;
+
+export type ObjectStoreName = "config" | "auditLog" | "schedule";
+const OBJECT_STORES: ObjectStoreName[] = ["config", "auditLog", "schedule"];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of OBJECT_STORES) {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const runRequest = async <T>(storeName: ObjectStoreName, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isLocalDatabaseAvailable = (): boolean => typeof indexedDB !== "undefined";
+
+export const readRecord = async <T>(storeName: ObjectStoreName, key: string): Promise<T | undefined> => {
+  if (!isLocalDatabaseAvailable()) return undefined;
+  return runRequest<T | undefined>(storeName, "readonly", store => store.get(key));
+};
+
+export const writeRecord = async <T>(storeName: ObjectStoreName, key: string, value: T): Promise<void> => {
+  if (!isLocalDatabaseAvailable()) return;
+  await runRequest(storeName, "readwrite", store => store.put(value, key));
+};
+
+export const readAllRecords = async <T>(storeName: ObjectStoreName): Promise<T[]> => {
+  if (!isLocalDatabaseAvailable()) return [];
+  return runRequest<T[]>(storeName, "readonly", store => store.getAll());
+};
+
+// Like writeRecord, but fails instead of replacing a record that already has the key
+export const addRecord = async <T>(storeName: ObjectStoreName, key: string, value: T): Promise<void> => {
+  if (!isLocalDatabaseAvailable()) return;
+  await runRequest(storeName, "readwrite", store => store.add(value, key));
+};
+
+export const deleteRecord = async (storeName: ObjectStoreName, key: string): Promise<void> => {
+  if (!isLocalDatabaseAvailable()) return;
+  await runRequest(storeName, "readwrite", store => store.delete(key));
+};
@@ -0,0 +1,343 @@
+import type { EmergencyActionType } from "./emergencyCommunicationService";
+import { getEmergencyConfig, subscribeToEmergencyConfig, updateEmergencyConfig } from "./configStore";
+
+// Each action has one template per channel: a short SMS body, a long email body and a push title/body
+export interface MessageTemplate {
+  sms: string;
+  emailSubject: string;
+  email: string;
+  pushTitle: string;
+  push: string;
+}
+
+export type TemplateField = keyof MessageTemplate;
+
+export interface TemplateVariables {
+  region: string;
+  disasterType: string;
+  shelterLocation: string;
+  instructions: string;
+  alertMessage: string;
+  resources: string;
+}
+
+export type RenderedMessage = MessageTemplate;
+
+export const TEMPLATE_VARIABLES: (keyof TemplateVariables)[] = [
+  "region",
+  "disasterType",
+  "shelterLocation",
+  "instructions",
+  "alertMessage",
+  "resources"
+];
+
+export type Locale = "en" | "es" | "vi" | "zh";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  vi: "Tiếng Việt",
+  zh: "中文"
+};
+
+// A translated set of templates plus localized defaults for variables the operator leaves blank
+export interface TemplatePack {
+  templates: Partial<Record<EmergencyActionType, MessageTemplate>>;
+  defaults: Partial<TemplateVariables>;
+  disasterTypes: Record<string, string>;
+}
+
+export const DEFAULT_TEMPLATE_PACKS: Record<Locale, TemplatePack> = {
+  en: {
+    templates: {
+      evacuation: {
+        sms: "URGENT: Evacuation required in {{region}}. Implement evacuation protocol immediately.",
+        emailSubject: "URGENT EVACUATION: {{region}}",
+        email: "URGENT: Evacuation required in {{region}} due to {{disasterType}}. Implement evacuation protocol immediately.\n\nShelter: {{shelterLocation}}\nInstructions: {{instructions}}",
+        pushTitle: "EVACUATION ORDER",
+        push: "Evacuate {{region}} now. Shelter: {{shelterLocation}}"
+      },
+      alert: {
+        sms: "ALERT: {{alertMessage}} in {{region}}. Take appropriate action immediately.",
+        emailSubject: "REGION ALERT: {{region}}",
+        email: "ALERT: {{alertMessage}} in {{region}} ({{disasterType}}). Take appropriate action immediately.\n\nInstructions: {{instructions}}\nShelter: {{shelterLocation}}",
+        pushTitle: "EMERGENCY ALERT",
+        push: "{{alertMessage}} in {{region}}. Take appropriate action immediately."
+      },
+      resources: {
+        sms: "RESOURCE REQUEST: The following resources are needed in {{region}}: {{resources}}",
+        emailSubject: "RESOURCE REQUEST: {{region}}",
+        email: "RESOURCE REQUEST: The following resources are needed in {{region}} to respond to {{disasterType}}:\n\n{{resources}}\n\nDeliver to: {{shelterLocation}}",
+        pushTitle: "RESOURCE REQUEST",
+        push: "Resources needed in {{region}}: {{resources}}"
+      },
+      allClear: {
+        sms: "ALL CLEAR: The emergency situation in {{region}} has been resolved. You may return to normal operations.",
+        emailSubject: "ALL CLEAR: {{region}}",
+        email: "ALL CLEAR: The emergency situation in {{region}} has been resolved. You may return to normal operations.\n\n{{instructions}}",
+        pushTitle: "ALL CLEAR",
+        push: "The emergency in {{region}} has been resolved."
+      }
+    },
+    defaults: {
+      region: "the affected area",
+      disasterType: "an emergency",
+      shelterLocation: "the nearest designated shelter",
+      instructions: "Follow directions from local authorities.",
+      alertMessage: "Emergency situation in progress",
+      resources: "emergency supplies"
+    },
+    disasterTypes: {}
+  },
+  es: {
+    templates: {
+      evacuation: {
+        sms: "URGENTE: Se requiere evacuación en {{region}}. Aplique el protocolo de evacuación de inmediato.",
+        emailSubject: "EVACUACIÓN URGENTE: {{region}}",
+        email: "URGENTE: Se requiere evacuación en {{region}} debido a {{disasterType}}. Aplique el protocolo de evacuación de inmediato.\n\nRefugio: {{shelterLocation}}\nInstrucciones: {{instructions}}",
+        pushTitle: "ORDEN DE EVACUACIÓN",
+        push: "Evacúe {{region}} ahora. Refugio: {{shelterLocation}}"
+      },
+      alert: {
+        sms: "ALERTA: {{alertMessage}} en {{region}}. Tome las medidas adecuadas de inmediato.",
+        emailSubject: "ALERTA REGIONAL: {{region}}",
+        email: "ALERTA: {{alertMessage}} en {{region}} ({{disasterType}}). Tome las medidas adecuadas de inmediato.\n\nInstrucciones: {{instructions}}\nRefugio: {{shelterLocation}}",
+        pushTitle: "ALERTA DE EMERGENCIA",
+        push: "{{alertMessage}} en {{region}}. Tome las medidas adecuadas de inmediato."
+      },
+      resources: {
+        sms: "SOLICITUD DE RECURSOS: Se necesitan los siguientes recursos en {{region}}: {{resources}}",
+        emailSubject: "SOLICITUD DE RECURSOS: {{region}}",
+        email: "SOLICITUD DE RECURSOS: Se necesitan los siguientes recursos en {{region}} para responder a {{disasterType}}:\n\n{{resources}}\n\nEntregar en: {{shelterLocation}}",
+        pushTitle: "SOLICITUD DE RECURSOS",
+        push: "Se necesitan recursos en {{region}}: {{resources}}"
+      },
+      allClear: {
+        sms: "FIN DE LA ALERTA: La situación de emergencia en {{region}} se ha resuelto. Puede volver a sus actividades normales.",
+        emailSubject: "FIN DE LA ALERTA: {{region}}",
+        email: "FIN DE LA ALERTA: La situación de emergencia en {{region}} se ha resuelto. Puede volver a sus actividades normales.\n\n{{instructions}}",
+        pushTitle: "FIN DE LA ALERTA",
+        push: "La emergencia en {{region}} se ha resuelto."
+      }
+    },
+    defaults: {
+      region: "la zona afectada",
+      disasterType: "una emergencia",
+      shelterLocation: "el refugio designado más cercano",
+      instructions: "Siga las indicaciones de las autoridades locales.",
+      alertMessage: "Situación de emergencia en curso",
+      resources: "suministros de emergencia"
+    },
+    disasterTypes: {
+      flood: "inundación",
+      fire: "incendio",
+      earthquake: "terremoto",
+      hurricane: "huracán"
+    }
+  },
+  vi: {
+    templates: {
+      evacuation: {
+        sms: "KHẨN CẤP: Yêu cầu sơ tán tại {{region}}. Thực hiện quy trình sơ tán ngay lập tức.",
+        emailSubject: "SƠ TÁN KHẨN CẤP: {{region}}",
+        email: "KHẨN CẤP: Yêu cầu sơ tán tại {{region}} do {{disasterType}}. Thực hiện quy trình sơ tán ngay lập tức.\n\nNơi trú ẩn: {{shelterLocation}}\nHướng dẫn: {{instructions}}",
+        pushTitle: "LỆNH SƠ TÁN",
+        push: "Sơ tán khỏi {{region}} ngay. Nơi trú ẩn: {{shelterLocation}}"
+      },
+      alert: {
+        sms: "CẢNH BÁO: {{alertMessage}} tại {{region}}. Hãy hành động phù hợp ngay lập tức.",
+        emailSubject: "CẢNH BÁO KHU VỰC: {{region}}",
+        email: "CẢNH BÁO: {{alertMessage}} tại {{region}} ({{disasterType}}). Hãy hành động phù hợp ngay lập tức.\n\nHướng dẫn: {{instructions}}\nNơi trú ẩn: {{shelterLocation}}",
+        pushTitle: "CẢNH BÁO KHẨN CẤP",
+        push: "{{alertMessage}} tại {{region}}. Hãy hành động phù hợp ngay lập tức."
+      },
+      resources: {
+        sms: "YÊU CẦU NGUỒN LỰC: Cần các nguồn lực sau tại {{region}}: {{resources}}",
+        emailSubject: "YÊU CẦU NGUỒN LỰC: {{region}}",
+        email: "YÊU CẦU NGUỒN LỰC: Cần các nguồn lực sau tại {{region}} để ứng phó với {{disasterType}}:\n\n{{resources}}\n\nGiao đến: {{shelterLocation}}",
+        pushTitle: "YÊU CẦU NGUỒN LỰC",
+        push: "Cần nguồn lực tại {{region}}: {{resources}}"
+      },
+      allClear: {
+        sms: "AN TOÀN: Tình trạng khẩn cấp tại {{region}} đã được giải quyết. Quý vị có thể trở lại sinh hoạt bình thường.",
+        emailSubject: "AN TOÀN: {{region}}",
+        email: "AN TOÀN: Tình trạng khẩn cấp tại {{region}} đã được giải quyết. Quý vị có thể trở lại sinh hoạt bình thường.\n\n{{instructions}}",
+        pushTitle: "ĐÃ AN TOÀN",
+        push: "Tình trạng khẩn cấp tại {{region}} đã được giải quyết."
+      }
+    },
+    defaults: {
+      region: "khu vực bị ảnh hưởng",
+      disasterType: "tình trạng khẩn cấp",
+      shelterLocation: "nơi trú ẩn được chỉ định gần nhất",
+      instructions: "Làm theo hướng dẫn của chính quyền địa phương.",
+      alertMessage: "Tình huống khẩn cấp đang diễn ra",
+      resources: "vật tư khẩn cấp"
+    },
+    disasterTypes: {
+      flood: "lũ lụt",
+      fire: "hỏa hoạn",
+      earthquake: "động đất",
+      hurricane: "bão"
+    }
+  },
+  zh: {
+    templates: {
+      evacuation: {
+        sms: "紧急：{{region}}需要疏散。请立即执行疏散程序。",
+        emailSubject: "紧急疏散：{{region}}",
+        email: "紧急：由于{{disasterType}}，{{region}}需要疏散。请立即执行疏散程序。\n\n避难所：{{shelterLocation}}\n指示：{{instructions}}",
+        pushTitle: "疏散令",
+        push: "请立即撤离{{region}}。避难所：{{shelterLocation}}"
+      },
+      alert: {
+        sms: "警报：{{region}}：{{alertMessage}}。请立即采取适当行动。",
+        emailSubject: "地区警报：{{region}}",
+        email: "警报：{{region}}：{{alertMessage}}（{{disasterType}}）。请立即采取适当行动。\n\n指示：{{instructions}}\n避难所：{{shelterLocation}}",
+        pushTitle: "紧急警报",
+        push: "{{region}}：{{alertMessage}}。请立即采取适当行动。"
+      },
+      resources: {
+        sms: "资源请求：{{region}}需要以下资源：{{resources}}",
+        emailSubject: "资源请求：{{region}}",
+        email: "资源请求：{{region}}应对{{disasterType}}需要以下资源：\n\n{{resources}}\n\n送达地点：{{shelterLocation}}",
+        pushTitle: "资源请求",
+        push: "{{region}}需要资源：{{resources}}"
+      },
+      allClear: {
+        sms: "警报解除：{{region}}的紧急情况已解除。您可以恢复正常活动。",
+        emailSubject: "警报解除：{{region}}",
+        email: "警报解除：{{region}}的紧急情况已解除。您可以恢复正常活动。\n\n{{instructions}}",
+        pushTitle: "警报解除",
+        push: "{{region}}的紧急情况已解除。"
+      }
+    },
+    defaults: {
+      region: "受影响地区",
+      disasterType: "紧急情况",
+      shelterLocation: "最近的指定避难所",
+      instructions: "请听从当地政府的指示。",
+      alertMessage: "紧急情况正在发生",
+      resources: "应急物资"
+    },
+    disasterTypes: {
+      flood: "洪水",
+      fire: "火灾",
+      earthquake: "地震",
+      hurricane: "飓风"
+    }
+  }
+};
+
+// Accepts tags such as "es-MX" or "zh-Hant"; anything unsupported falls back to English
+export const resolveLocale = (locale?: string): Locale => {
+  const language = locale?.toLowerCase().split(/[-_]/)[0];
+  return language && language in LOCALE_LABELS ? language as Locale : DEFAULT_LOCALE;
+};
+
+export type AmendmentType = "Update" | "Cancel";
+
+// Leads corrected and cancelled alerts so recipients can tell them apart from the original
+export const AMENDMENT_NOTICES: Record<Locale, Record<AmendmentType, string>> = {
+  en: { Update: "CORRECTION:", Cancel: "CANCELLED - disregard the earlier message:" },
+  es: { Update: "CORRECCIÓN:", Cancel: "CANCELADO - ignore el mensaje anterior:" },
+  vi: { Update: "ĐÍNH CHÍNH:", Cancel: "ĐÃ HỦY - bỏ qua tin nhắn trước:" },
+  zh: { Update: "更正：", Cancel: "已取消 - 请忽略之前的消息：" }
+};
+
+// Operator edits per locale and action, saved with the emergency config; anything not overridden uses the default pack
+export type TemplateOverrides = Partial<Record<Locale, Partial<Record<EmergencyActionType, MessageTemplate>>>>;
+
+type TemplateSet = Record<Locale, Partial<Record<EmergencyActionType, MessageTemplate>>>;
+
+let merged: { overrides: TemplateOverrides; templates: TemplateSet } | null = null;
+
+// Rebuilt only when the overrides change, so the snapshot stays stable for useSyncExternalStore
+export const getTemplates = (): TemplateSet => {
+  const overrides = getEmergencyConfig().templateOverrides;
+  if (merged?.overrides !== overrides) {
+    const templates = Object.fromEntries(Object.entries(DEFAULT_TEMPLATE_PACKS).map(([locale, pack]) =>
+      [locale, { ...pack.templates, ...overrides[locale as Locale] }])) as TemplateSet;
+    merged = { overrides, templates };
+  }
+  return merged.templates;
+};
+
+export const subscribeToTemplates = subscribeToEmergencyConfig;
+
+export const updateTemplate = (locale: Locale, actionType: EmergencyActionType, template: MessageTemplate): void => {
+  updateEmergencyConfig(config => ({
+    ...config,
+    templateOverrides: { ...config.templateOverrides, [locale]: { ...config.templateOverrides[locale], [actionType]: template } }
+  }));
+};
+
+export const hasTranslation = (locale: Locale, actionType: EmergencyActionType): boolean => Boolean(getTemplates()[locale][actionType]);
+
+// The locale's template for the action, or the English one when there is no translation
+export const getTemplate = (locale: Locale, actionType: EmergencyActionType): MessageTemplate => {
+  const templates = getTemplates();
+  return templates[locale][actionType] ?? templates[DEFAULT_LOCALE][actionType] ?? DEFAULT_TEMPLATE_PACKS.en.templates[actionType]!;
+};
+
+// Replaces {{variable}} placeholders; unknown placeholders are left as written so mistakes show up in the preview
+export const renderTemplate = (text: string, variables: TemplateVariables): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in variables ? variables[name as keyof TemplateVariables] : placeholder
+  );
+
+export const resolveTemplateVariables = (variables: Partial<TemplateVariables>, locale: Locale = DEFAULT_LOCALE): TemplateVariables => {
+  const pack = DEFAULT_TEMPLATE_PACKS[locale];
+  const resolved = { ...DEFAULT_TEMPLATE_PACKS.en.defaults, ...pack.defaults } as TemplateVariables;
+  for (const name of TEMPLATE_VARIABLES) {
+    const value = variables[name]?.trim();
+    if (value) resolved[name] = value;
+  }
+  resolved.disasterType = pack.disasterTypes[resolved.disasterType] ?? resolved.disasterType;
+  return resolved;
+};
+
+export const renderMessage = (
+  actionType: EmergencyActionType,
+  variables: Partial<TemplateVariables>,
+  locale: Locale = DEFAULT_LOCALE,
+  template: MessageTemplate = getTemplate(locale, actionType)
+): RenderedMessage => {
+  const resolved = resolveTemplateVariables(variables, hasTranslation(locale, actionType) ? locale : DEFAULT_LOCALE);
+  return {
+    sms: renderTemplate(template.sms, resolved),
+    emailSubject: renderTemplate(template.emailSubject, resolved),
+    email: renderTemplate(template.email, resolved),
+    pushTitle: renderTemplate(template.pushTitle, resolved),
+    push: renderTemplate(template.push, resolved)
+  };
+};
+
+// Prefixes each channel's text with the amendment notice, in the language the message was rendered in
+export const amendMessage = (message: RenderedMessage, amendment: AmendmentType, locale: Locale = DEFAULT_LOCALE): RenderedMessage => {
+  const notice = AMENDMENT_NOTICES[locale][amendment];
+  return {
+    sms: `${notice} ${message.sms}`,
+    emailSubject: `${notice} ${message.emailSubject}`,
+    email: `${notice}\n\n${message.email}`,
+    pushTitle: `${notice} ${message.pushTitle}`,
+    push: message.push // The title already carries the notice
+  };
+};
+
+// Renders once per recipient language for an action; amendments carry their notice in the same language
+export const createMessageRenderer = (actionType: EmergencyActionType, variables: Partial<TemplateVariables>, amendment?: AmendmentType) => {
+  const rendered = new Map<Locale, RenderedMessage>();
+  return (locale?: string): RenderedMessage => {
+    const resolvedLocale = resolveLocale(locale);
+    if (!rendered.has(resolvedLocale)) {
+      const message = renderMessage(actionType, variables, resolvedLocale);
+      const messageLocale = hasTranslation(resolvedLocale, actionType) ? resolvedLocale : DEFAULT_LOCALE;
+      rendered.set(resolvedLocale, amendment ? amendMessage(message, amendment, messageLocale) : message);
+    }
+    return rendered.get(resolvedLocale)!;
+  };
+};
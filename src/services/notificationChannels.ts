@@ -0,0 +1,99 @@
+export type ChannelType = "sms" | "email" | "push";
+
+export interface NotificationMessage {
+  subject: string; // Email subject or push notification title; ignored by SMS
+  body: string;
+}
+
+export interface NotificationChannel {
+  type: ChannelType;
+  provider: string;
+  send: (address: string, message: NotificationMessage) => Promise<boolean>;
+}
+
+const SIMULATED_LATENCY_MS = 500;
+
+const simulateLatency = () => new Promise<boolean>(resolve => setTimeout(() => resolve(true), SIMULATED_LATENCY_MS));
+
+// Simulated providers - log to the console instead of contacting a real service
+export const consoleSmsChannel: NotificationChannel = {
+  type: "sms",
+  provider: "console",
+  send: async (phoneNumber, message) => {
+    console.log(`SMS would be sent to ${phoneNumber}: ${message.body}`);
+    return simulateLatency();
+  }
+};
+
+export const consoleEmailChannel: NotificationChannel = {
+  type: "email",
+  provider: "console",
+  send: async (email, message) => {
+    console.log(`Email would be sent to ${email}: ${message.subject} - ${message.body}`);
+    return simulateLatency();
+  }
+};
+
+export const consolePushChannel: NotificationChannel = {
+  type: "push",
+  provider: "console",
+  send: async (deviceId, message) => {
+    console.log(`Push notification would be sent to ${deviceId}: ${message.subject} - ${message.body}`);
+    return simulateLatency();
+  }
+};
+
+// HTTP provider - posts each message to a gateway such as the bundled local stand-in (see gateway/localGateway.ts)
+export const createGatewayChannel = (type: ChannelType, gatewayUrl: string): NotificationChannel => ({
+  type,
+  provider: `gateway:${gatewayUrl}`,
+  send: async (address, message) => {
+    const response = await fetch(`${gatewayUrl}/${type}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ to: address, subject: message.subject, body: message.body })
+    });
+    if (!response.ok) {
+      throw new Error(`Gateway rejected ${type} to ${address}: ${response.status} ${response.statusText}`);
+    }
+    return true;
+  }
+});
+
+const channelRegistry = new Map<ChannelType, NotificationChannel>();
+
+export const registerChannel = (channel: NotificationChannel): void => {
+  channelRegistry.set(channel.type, channel);
+};
+
+export const getChannel = (type: ChannelType): NotificationChannel => {
+  const channel = channelRegistry.get(type);
+  if (!channel) {
+    throw new Error(`No notification channel registered for ${type}`);
+  }
+  return channel;
+};
+
+export const getRegisteredChannels = (): NotificationChannel[] => Array.from(channelRegistry.values());
+
+// Set VITE_NOTIFICATION_GATEWAY_URL (e.g. "/gateway" for the dev/preview server) to send real HTTP requests
+export const gatewayUrl: string | undefined = import.meta.env.VITE_NOTIFICATION_GATEWAY_URL;
+
+// Sent on requests only operators may make, such as publishing to the CAP feed. Set VITE_GATEWAY_OPERATOR_TOKEN
+// to the token the gateway was started with.
+const gatewayOperatorToken: string | undefined = import.meta.env.VITE_GATEWAY_OPERATOR_TOKEN;
+export const gatewayOperatorHeaders: Record<string, string> = gatewayOperatorToken ? { Authorization: `Bearer ${gatewayOperatorToken}` } : {};
+
+export const registerDefaultChannels = (): void => {
+  if (gatewayUrl) {
+    registerChannel(createGatewayChannel("sms", gatewayUrl));
+    registerChannel(createGatewayChannel("email", gatewayUrl));
+    registerChannel(createGatewayChannel("push", gatewayUrl));
+  } else {
+    registerChannel(consoleSmsChannel);
+    registerChannel(consoleEmailChannel);
+    registerChannel(consolePushChannel);
+  }
+};
+
+registerDefaultChannels();
@@ -0,0 +1,29 @@
+// Phone numbers are stored in E.164 form ("+15551234567") so the same number always compares equal
+
+export const E164_PATTERN = /^\+[1-9]\d{7,14}$/; // Also checked by the local gateway
+const DEFAULT_COUNTRY_CODE = "1"; // Numbers entered without a country code are assumed to be North American
+
+export const isE164 = (value: string): boolean => E164_PATTERN.test(value);
+
+// Accepts common formatting such as "+1-555-123-4567", "(555) 123-4567" or "0044 20 7946 0958";
+// returns null when the input can't be a valid E.164 number
+export const normalizePhoneNumber = (input: string): string | null => {
+  const trimmed = input.trim();
+  if (!/^[+\d\s().-]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, "");
+  let normalized: string;
+  if (trimmed.startsWith("+")) {
+    normalized = `+${digits}`;
+  } else if (digits.startsWith("00")) {
+    normalized = `+${digits.slice(2)}`;
+  } else if (digits.length === 10) {
+    normalized = `+${DEFAULT_COUNTRY_CODE}${digits}`;
+  } else if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    normalized = `+${digits}`;
+  } else {
+    return null;
+  }
+
+  return isE164(normalized) ? normalized : null;
+};
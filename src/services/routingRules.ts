@@ -0,0 +1,139 @@
+import * as z from "zod";
+import type {
+  ActionRecipients,
+  ContactInfo,
+  EmergencyActionType,
+  EmergencyConfig,
+  EmergencyTeam
+} from "./emergencyCommunicationService";
+import { updateEmergencyConfig } from "./configStore";
+import { Device, getDevicesInArea, getRegionDevices } from "./deviceRegistry";
+import { TargetArea } from "./geoArea";
+
+export type DisasterType = "flood" | "fire" | "earthquake" | "hurricane";
+export type Severity = "low" | "medium" | "high" | "critical";
+
+export const DISASTER_TYPES: DisasterType[] = ["flood", "fire", "earthquake", "hurricane"];
+export const SEVERITIES: Severity[] = ["low", "medium", "high", "critical"]; // Least to most severe
+
+// What the operator is responding to when an action is sent
+export interface RoutingContext {
+  region: string;
+  disasterType?: string;
+  severity?: Severity;
+  area?: TargetArea; // A polygon drawn or selected on the map; overrides region membership for region devices
+}
+
+// A rule adds its recipients to the action's defaults whenever every condition it sets matches.
+// Empty lists and a missing minimum severity match anything.
+export interface RoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  actionTypes: EmergencyActionType[];
+  disasterTypes: string[];
+  minSeverity?: Severity;
+  regions: string[]; // Matched case-insensitively against any part of the region name
+  recipients: ActionRecipients;
+}
+
+export const routingRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  enabled: z.boolean(),
+  actionTypes: z.array(z.enum(["evacuation", "alert", "resources", "allClear"])),
+  disasterTypes: z.array(z.string()),
+  minSeverity: z.enum(["low", "medium", "high", "critical"]).optional(),
+  regions: z.array(z.string().trim().min(1)),
+  recipients: z.object({
+    teams: z.array(z.string()),
+    tags: z.array(z.string()),
+    regionDevices: z.boolean()
+  })
+}).refine(
+  rule => rule.recipients.teams.length > 0 || rule.recipients.tags.length > 0 || rule.recipients.regionDevices,
+  { message: "A rule must notify at least one team, role tag or the region devices", path: ["recipients"] }
+);
+
+export type RoutingRuleValues = Omit<RoutingRule, "id">;
+
+export interface RecipientSource {
+  label: string; // "Action defaults" or the rule's name
+  recipients: ActionRecipients;
+  rule?: RoutingRule;
+}
+
+export interface RoutingPlan {
+  recipients: ActionRecipients;
+  sources: RecipientSource[];
+  matchedRules: RoutingRule[];
+}
+
+export interface ResolvedRecipients {
+  teams: EmergencyTeam[];
+  tagged: { contact: ContactInfo; tag: string }[]; // People on other teams reached through a role tag
+  regionDevices: Device[];
+}
+
+export const ruleMatches = (rule: RoutingRule, actionType: EmergencyActionType, context: RoutingContext): boolean => {
+  if (!rule.enabled) return false;
+  if (rule.actionTypes.length > 0 && !rule.actionTypes.includes(actionType)) return false;
+  if (rule.disasterTypes.length > 0 && !(context.disasterType && rule.disasterTypes.includes(context.disasterType))) return false;
+  if (rule.minSeverity && !(context.severity && SEVERITIES.indexOf(context.severity) >= SEVERITIES.indexOf(rule.minSeverity))) return false;
+
+  const region = context.region.toLowerCase();
+  return rule.regions.length === 0 || rule.regions.some(candidate => region.includes(candidate.toLowerCase()));
+};
+
+const mergeRecipients = (sources: ActionRecipients[]): ActionRecipients => ({
+  teams: Array.from(new Set(sources.flatMap(source => source.teams))),
+  tags: Array.from(new Set(sources.flatMap(source => source.tags))),
+  regionDevices: sources.some(source => source.regionDevices)
+});
+
+export const planRouting = (actionType: EmergencyActionType, context: RoutingContext, config: EmergencyConfig): RoutingPlan => {
+  const matchedRules = config.routingRules.filter(rule => ruleMatches(rule, actionType, context));
+  const sources: RecipientSource[] = [
+    { label: "Action defaults", recipients: config.actionRecipients[actionType] },
+    ...matchedRules.map(rule => ({ label: rule.name, recipients: rule.recipients, rule }))
+  ];
+  return { recipients: mergeRecipients(sources.map(source => source.recipients)), sources, matchedRules };
+};
+
+// Turns team keys and role tags into the people they stand for, and the region flag into the opted-in
+// devices inside the target area or, without one, those registered to the region
+export const resolveRecipients = (recipients: ActionRecipients, config: EmergencyConfig, context: RoutingContext): ResolvedRecipients => {
+  const teams = recipients.teams.flatMap(teamId => {
+    const team = config.teams[teamId];
+    if (!team) console.warn(`Ignoring unknown team "${teamId}" in routing`);
+    return team ? [team] : [];
+  });
+
+  const tagged = Object.entries(config.teams)
+    .filter(([teamId]) => !recipients.teams.includes(teamId))
+    .flatMap(([, team]) => [team.teamHead, ...team.members])
+    .flatMap(contact => {
+      const tag = contact.tags?.find(candidate => recipients.tags.includes(candidate));
+      return tag ? [{ contact, tag }] : [];
+    });
+
+  const regionDevices = !recipients.regionDevices ? []
+    : context.area ? getDevicesInArea(config.devices, context.area.polygon)
+    : getRegionDevices(config.devices, context.region);
+  return { teams, tagged, regionDevices };
+};
+
+export const addRoutingRule = (values: RoutingRuleValues): EmergencyConfig => {
+  routingRuleSchema.parse(values);
+  return updateEmergencyConfig(config => ({ ...config, routingRules: [...config.routingRules, { ...values, id: crypto.randomUUID() }] }));
+};
+
+export const updateRoutingRule = (id: string, values: RoutingRuleValues): EmergencyConfig => {
+  routingRuleSchema.parse(values);
+  return updateEmergencyConfig(config => ({
+    ...config,
+    routingRules: config.routingRules.map(rule => rule.id === id ? { ...values, id } : rule)
+  }));
+};
+
+export const removeRoutingRule = (id: string): EmergencyConfig =>
+  updateEmergencyConfig(config => ({ ...config, routingRules: config.routingRules.filter(rule => rule.id !== id) }));
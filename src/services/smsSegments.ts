@@ -0,0 +1,84 @@
+import type { EmergencyConfig } from "./emergencyCommunicationService";
+import { updateEmergencyConfig } from "./configStore";
+
+// How many SMS segments a message is billed and delivered as. Text that fits the GSM 03.38 alphabet goes
+// as 7-bit GSM; anything else (accents outside it, Vietnamese, Chinese, emoji) switches the whole message to UCS-2.
+
+export type SmsEncoding = "GSM-7" | "UCS-2";
+
+export interface SmsSegmentCount {
+  encoding: SmsEncoding;
+  units: number; // Septets for GSM-7 (extension characters take two), UTF-16 code units for UCS-2
+  segments: number;
+  perSegment: number; // Capacity of each segment at this length
+}
+
+const GSM_BASIC = new Set(
+  "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?" +
+  "¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà"
+);
+const GSM_EXTENSION = new Set("^{}\\[~]|€\f");
+
+const LIMITS: Record<SmsEncoding, { single: number; concatenated: number }> = {
+  "GSM-7": { single: 160, concatenated: 153 }, // Concatenated segments lose room to the reassembly header
+  "UCS-2": { single: 70, concatenated: 67 }
+};
+
+const gsmSeptets = (text: string): number | null => {
+  let septets = 0;
+  for (const char of text) {
+    if (GSM_BASIC.has(char)) septets += 1;
+    else if (GSM_EXTENSION.has(char)) septets += 2;
+    else return null;
+  }
+  return septets;
+};
+
+export const countSmsSegments = (text: string): SmsSegmentCount => {
+  const septets = gsmSeptets(text);
+  const encoding: SmsEncoding = septets === null ? "UCS-2" : "GSM-7";
+  const units = septets ?? text.length;
+  const { single, concatenated } = LIMITS[encoding];
+  const perSegment = units <= single ? single : concatenated;
+
+  return { encoding, units, segments: units === 0 ? 0 : Math.ceil(units / perSegment), perSegment };
+};
+
+// An SMS as it will be sent, after fitting it to the segment budget where possible
+export interface ComposedSms {
+  body: string;
+  count: SmsSegmentCount;
+  shortForm: boolean; // The full text was over budget, so only its first sentence is sent, after any prefix
+  overBudget: boolean; // Still over budget even in short form
+}
+
+// Text that must follow the message, e.g. acknowledgement instructions, in full and in a compact form
+export interface SmsSuffix {
+  full: string;
+  short: string;
+}
+
+// Up to the end of the first sentence, in Latin or CJK punctuation
+const FIRST_SENTENCE = /^[\s\S]*?(?:[.!?](?=\s|$)|[。！？])/;
+
+export const shortSmsForm = (text: string): string => text.match(FIRST_SENTENCE)?.[0] ?? text;
+
+export const setSmsSegmentBudget = (budget: number): EmergencyConfig => {
+  if (!Number.isInteger(budget) || budget < 1) throw new Error("The SMS budget must be a whole number of segments, at least one");
+  return updateEmergencyConfig(config => ({ ...config, smsSegmentBudget: budget }));
+};
+
+const joinSms = (...parts: (string | undefined)[]) => parts.filter(Boolean).join(" ");
+
+// Sends the full text when it fits the budget; otherwise the first sentence with the compact suffix.
+// A prefix, such as an escalation notice, leads either form and is never taken for the first sentence.
+// Email and push keep the long form, so nothing is lost for recipients who also get those.
+export const composeSms = (text: string, budget: number, suffix?: SmsSuffix, prefix?: string): ComposedSms => {
+  const full = joinSms(prefix, text, suffix?.full);
+  const fullCount = countSmsSegments(full);
+  if (fullCount.segments <= budget) return { body: full, count: fullCount, shortForm: false, overBudget: false };
+
+  const short = joinSms(prefix, shortSmsForm(text), suffix?.short);
+  const shortCount = countSmsSegments(short);
+  return { body: short, count: shortCount, shortForm: true, overBudget: shortCount.segments > budget };
+};
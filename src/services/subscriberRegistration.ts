@@ -0,0 +1,109 @@
+import * as z from "zod";
+import { Device, registerVerifiedPhone } from "./deviceRegistry";
+import { getEmergencyConfig } from "./configStore";
+import { GeoPoint, parseGeoPoint } from "./geoArea";
+import { LOCALE_LABELS, Locale } from "./messageTemplates";
+import { gatewayOperatorHeaders, gatewayUrl } from "./notificationChannels";
+import { normalizePhoneNumber } from "./phoneNumbers";
+
+// Public opt-in for residents. The notification gateway makes, texts and checks the one-time code and keeps
+// the verified sign-ups; the browser only relays what the resident enters, so the code never reaches it.
+// The dashboard polls the gateway and adds verified numbers to its device registry.
+
+export const VERIFICATION_CODE_LENGTH = 6;
+const DEFAULT_OWNER = "Self-registered resident";
+const SUBSCRIBER_POLL_INTERVAL_MS = 15_000;
+
+export const subscriptionSchema = z.object({
+  name: z.string().trim().max(80, "Keep the name under 80 characters"),
+  phoneNumber: z.string().trim().refine(value => normalizePhoneNumber(value) !== null, "Enter a phone number with country code, e.g. +1 555 123 4567"),
+  regions: z.array(z.string().trim().min(1)).min(1, "Choose at least one region"),
+  // Optional, but without it the number only gets region-wide broadcasts, not those to an area drawn on the map
+  location: z.string().trim().refine(value => !value || parseGeoPoint(value) !== null, "Enter latitude and longitude, e.g. 29.7604, -95.3698"),
+  locale: z.enum(Object.keys(LOCALE_LABELS) as [Locale, ...Locale[]])
+});
+
+export type SubscriptionRequest = z.infer<typeof subscriptionSchema>;
+
+// As kept by the gateway once the code matched
+export interface VerifiedSubscriber {
+  id: number;
+  phoneNumber: string;
+  name: string;
+  regions: string[];
+  location?: GeoPoint;
+  locale: Locale;
+  verifiedAt: string;
+}
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let lastSubscriberId = 0;
+let gatewayInstance: string | null = null; // Ids start again from 1 whenever the gateway restarts
+
+const postToGateway = async <T>(path: string, body: unknown): Promise<T> => {
+  if (!gatewayUrl) throw new Error("Sign-up is not available: no notification gateway is configured.");
+
+  const response = await fetch(`${gatewayUrl}/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error ?? `Sign-up failed (${response.status} ${response.statusText})`);
+  return result as T;
+};
+
+// Has the gateway text a code to the number and returns the number in E.164 form. Asking again replaces the earlier code.
+export const requestVerificationCode = async (request: SubscriptionRequest): Promise<string> => {
+  const { location, ...values } = subscriptionSchema.parse(request);
+  const phoneNumber = normalizePhoneNumber(values.phoneNumber)!;
+  await postToGateway("subscribers/code", { ...values, phoneNumber, ...(location ? { location: parseGeoPoint(location) } : {}) });
+  return phoneNumber;
+};
+
+// Resolves once the gateway accepts the code; rejects with its reason otherwise
+export const verifySubscriber = (phoneNumber: string, code: string): Promise<VerifiedSubscriber> =>
+  postToGateway<VerifiedSubscriber>("subscribers/verify", { phoneNumber: normalizePhoneNumber(phoneNumber) ?? phoneNumber, code });
+
+// Skips sign-ups already applied, e.g. by another tab or before a reload, so an operator's later opt-out sticks
+const addSubscriber = (subscriber: VerifiedSubscriber): Device | null => {
+  const existing = getEmergencyConfig().devices.find(device => device.channel === "sms" && device.phoneNumber === subscriber.phoneNumber);
+  if (existing?.lastSeenAt && existing.lastSeenAt >= subscriber.verifiedAt) return null;
+  return registerVerifiedPhone(subscriber.phoneNumber, subscriber.regions, subscriber.name || DEFAULT_OWNER, subscriber.locale, subscriber.location);
+};
+
+const pollSubscribers = async () => {
+  try {
+    const response = await fetch(`${gatewayUrl}/subscribers?since=${lastSubscriberId}`, { headers: gatewayOperatorHeaders });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+    const instance = response.headers.get("X-Gateway-Instance");
+    if (instance !== gatewayInstance) {
+      gatewayInstance = instance;
+      if (lastSubscriberId > 0) {
+        // Sign-ups already applied are skipped, so fetching them all again is safe
+        lastSubscriberId = 0;
+        return pollSubscribers();
+      }
+    }
+
+    const received: VerifiedSubscriber[] = await response.json();
+    for (const subscriber of received) {
+      lastSubscriberId = Math.max(lastSubscriberId, subscriber.id);
+      addSubscriber(subscriber);
+    }
+  } catch (error) {
+    console.error("Failed to poll gateway for new subscribers:", error);
+  }
+};
+
+// Run by the dashboard; returns a function that stops polling
+export const startSubscriberSync = (): (() => void) => {
+  if (!gatewayUrl || pollTimer) return () => {};
+  void pollSubscribers();
+  pollTimer = setInterval(pollSubscribers, SUBSCRIBER_POLL_INTERVAL_MS);
+  return () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+};
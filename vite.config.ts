@@ -1,7 +1,8 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { localGateway } from "./gateway/localGateway";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -11,6 +12,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    localGateway({ operatorToken: loadEnv(mode, process.cwd(), "").VITE_GATEWAY_OPERATOR_TOKEN }),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),